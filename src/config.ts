@@ -9,6 +9,46 @@ export const VPS_ID = process.env.VPS_ID!;
 export const ROOM_ID = process.env.ROOM_ID!;
 export const SERVER_URL = process.env.SERVER_URL!;
 export const ENDPOINT_URL = process.env.ENDPOINT_URL!;
+export const COMMAND_POLICY_PATH =
+  process.env.COMMAND_POLICY_PATH || "./command-policy.json";
+export const DATA_DIR = process.env.DATA_DIR || "./data";
+// Yerel HTTP API'sinin dinlediği adres ve durum değiştiren uçlar için token
+export const API_HOST = process.env.API_HOST || "127.0.0.1";
+export const API_PORT = Number(process.env.API_PORT) || 4000;
+export const API_ADMIN_TOKEN =
+  process.env.API_ADMIN_TOKEN || process.env.CONNECTION_TOKEN || "";
+// Aynı idempotency key ile gelen komutların hatırlanma süresi (ms)
+export const IDEMPOTENCY_WINDOW_MS =
+  Number(process.env.IDEMPOTENCY_WINDOW_MS) || 10 * 60 * 1000;
+// Bir kaynağın (oda, kullanıcı, istemci) kuyrukta bekletebileceği en fazla komut
+export const QUEUE_ORIGIN_QUOTA = Number(process.env.QUEUE_ORIGIN_QUOTA) || 100;
+// Kaynak ağırlıkları, ör. "room-a=3,room-b=1" (belirtilmeyenler 1)
+export const QUEUE_ORIGIN_WEIGHTS: Record<string, number> = Object.fromEntries(
+  (process.env.QUEUE_ORIGIN_WEIGHTS || "")
+    .split(",")
+    .map((pair) => pair.split("=").map((part) => part.trim()))
+    .filter(([origin, weight]) => origin && Number(weight) > 0)
+    .map(([origin, weight]) => [origin, Number(weight)]),
+);
+// Sunucu onayı bekleyen giden mesajların toplam boyut sınırı (bayt) ve en uzun
+// saklanma süresi (ms)
+export const OUTBOX_MAX_BYTES =
+  Number(process.env.OUTBOX_MAX_BYTES) || 5 * 1024 * 1024;
+export const OUTBOX_MAX_AGE_MS =
+  Number(process.env.OUTBOX_MAX_AGE_MS) || 60 * 60 * 1000;
+// Yeniden bağlanma: full-jitter üstel bekleme (taban, üst sınır); art arda bu
+// kadar başarısız denemeden sonra devre açılır ve uzun beklemeyle denenir
+export const RECONNECT_BASE_DELAY_MS =
+  Number(process.env.RECONNECT_BASE_DELAY_MS) || 5 * 1000;
+export const RECONNECT_MAX_DELAY_MS =
+  Number(process.env.RECONNECT_MAX_DELAY_MS) || 30 * 1000;
+export const RECONNECT_MAX_ATTEMPTS =
+  Number(process.env.RECONNECT_MAX_ATTEMPTS) || 10;
+export const RECONNECT_COOLDOWN_MS =
+  Number(process.env.RECONNECT_COOLDOWN_MS) || 60 * 1000;
+// SIGTERM sonrası çalışan komutların bitmesi için beklenecek en uzun süre (ms)
+export const SHUTDOWN_DRAIN_TIMEOUT_MS =
+  Number(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS) || 30 * 1000;
 
 // VPS ID'yi ayarlamak için fonksiyon
 export const setVpsId = (id: string): void => {
@@ -0,0 +1,20 @@
+import crypto from "crypto";
+
+/**
+ * Yerel API isteğindeki "Authorization: Bearer <token>" başlığını doğrula.
+ * Karşılaştırma sabit sürede yapılır; token tanımlı değilse istek reddedilir.
+ */
+export const isAuthorizedRequest = (
+  authorization: string | undefined,
+  token: string,
+): boolean => {
+  if (!token || !authorization) return false;
+
+  const match = authorization.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  const expected = crypto.createHash("sha256").update(token).digest();
+  const received = crypto.createHash("sha256").update(match[1].trim()).digest();
+
+  return crypto.timingSafeEqual(expected, received);
+};
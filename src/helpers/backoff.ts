@@ -0,0 +1,37 @@
+// Gecikmeye eklenecek rastgelelik
+// none: sabit üstel gecikme, full: [0, gecikme], equal: [gecikme/2, gecikme]
+export type JitterMode = "none" | "full" | "equal";
+
+// Üstel geri çekilme ayarları
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  jitter: JitterMode;
+}
+
+export const JITTER_MODES: JitterMode[] = ["none", "full", "equal"];
+
+/**
+ * Kaçıncı tekrar olduğuna göre bekleme süresini hesapla (attempt 1'den başlar).
+ * Aynı anda düşen istemcilerin aynı anda geri dönmemesi için jitter eklenir.
+ */
+export const computeBackoffDelay = (
+  attempt: number,
+  options: BackoffOptions,
+  random: () => number = Math.random,
+): number => {
+  const exponential =
+    options.baseDelayMs *
+    Math.pow(options.multiplier, Math.max(0, attempt - 1));
+  const delay = Math.min(options.maxDelayMs, exponential);
+
+  switch (options.jitter) {
+    case "full":
+      return Math.round(random() * delay);
+    case "equal":
+      return Math.round(delay / 2 + random() * (delay / 2));
+    default:
+      return Math.round(delay);
+  }
+};
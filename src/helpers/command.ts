@@ -1,259 +1,846 @@
+import fs from "fs";
 import os from "os";
 import path from "path";
+import type { Subprocess } from "bun";
 import { logger } from "../services/logger";
+import { getCommandPolicy, CommandPolicy, CommandRule } from "./policy";
+import { parseShellWords, formatShellWords } from "./shellWords";
+import {
+  checkPathAccess,
+  extractPathArgument,
+  findAllowedRoot,
+  resolveRealPath,
+  AllowedRoot,
+} from "./pathGuard";
+import {
+  buildLimitedArgv,
+  detectLimitExceeded,
+  LimitKind,
+  ResourceLimits,
+} from "./limits";
+import {
+  buildChildEnv,
+  buildPrivilegeDropArgv,
+  checkRunAsAllowed,
+} from "./privileges";
+import type { CommandAttempt } from "./retry";
 
-// Güvenlik konfigürasyonu
+// Güvenlik konfigürasyonu (aktif politikadan türetilir)
 interface CommandSecurityConfig {
+  revision: string;
   allowedCommands: string[];
   maxOutputLength: number;
   timeout: number;
-  allowedPaths: string[];
+  limits: ResourceLimits;
+  runAs: string | null;
+  privilegedCommands: string[];
+  allowedPaths: AllowedRoot[];
+  defaultCwd: string;
 }
 
-// Güvenlik yapılandırması - şu an sadece echo komutlarına izin ver
-const SECURITY_CONFIG: CommandSecurityConfig = {
-  allowedCommands: [
-    "echo", // Temel echo komutu
-  ],
-  maxOutputLength: 10_000, // Maksimum çıktı uzunluğu (10KB)
-  timeout: 30_000, // 30 saniye timeout
-  allowedPaths: [
-    "/tmp", // Geçici dosyalar için
-    "/var/log", // Log dosyaları için (okuma)
-  ],
+// Yapılandırılmış komut - kabuk olmadan doğrudan argv olarak çalıştırılır
+export interface CommandSpec {
+  program: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+// Eski metin formatı veya yapılandırılmış komut
+export type CommandInput = string | CommandSpec;
+
+// Alt süreçlere verilen kısıtlı PATH
+const SAFE_PATH = "/usr/local/bin:/usr/bin:/bin";
+
+// Politikada izin verilse bile komut tarafından ezilemeyecek ortam değişkenleri
+const PROTECTED_ENV_PATTERN =
+  /^(PATH|HOME|IFS|ENV|BASH_ENV|SHELLOPTS|PS4|LD_.*|DYLD_.*)$/;
+
+// Çıktı akışı adı
+export type OutputStreamName = "stdout" | "stderr";
+
+// Artımlı çıktı parçası
+export interface CommandOutputChunk {
+  stream: OutputStreamName;
+  data: string;
+  seq: number; // Komut bazında stdout+stderr ortak sıra numarası (0'dan başlar)
+  offset: number; // Parçanın kendi akışı içindeki bayt ofseti
+}
+
+// Komut çalıştırma seçenekleri
+export interface ExecuteCommandOptions {
+  onOutput?: (chunk: CommandOutputChunk) => void;
+}
+
+// Komut sonucu durumu (çıkış kodundan bağımsız)
+export type CommandStatus =
+  | "ok"
+  | "failed"
+  | "blocked"
+  | "timeout"
+  | "truncated"
+  | "cancelled"
+  | "rejected"
+  | "interrupted"
+  | "internal_error";
+
+// Komut çalıştırma sonucu
+export interface CommandResult {
+  success: boolean;
+  status: CommandStatus;
+  stdout: string;
+  stderr: string;
+  exit_code: number | null; // Sürecin gerçek çıkış kodu (sinyalle bittiyse veya çalışmadıysa null)
+  signal: string | null; // Süreci sonlandıran sinyal (SIGKILL, SIGXCPU...)
+  error?: string; // Ajan tarafı açıklama (engelleme nedeni, aşılan limit...)
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  chunk_count: number;
+  limit_exceeded?: LimitKind;
+  policy_revision: string;
+  attempts?: CommandAttempt[]; // Tekrar denenen komutlarda tüm denemeler
+}
+
+// Protokol v1 istemcilerinin beklediği eski sonuç biçimi
+export interface LegacyCommandResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  exit_code: number; // HTTP benzeri kodlar (403, 413...) ile karışık
+  cancelled?: boolean;
+}
+
+// Çalışmakta olan komut kaydı (iptal için)
+interface RunningCommand {
+  proc: Subprocess;
+  cancelled: boolean;
+  killTimer: NodeJS.Timeout | null;
+}
+
+// Limit aşımında kullanıcıya gösterilen mesajlar
+const LIMIT_MESSAGES: Record<LimitKind, (rule: CommandRule) => string> = {
+  cpu: (rule) => `CPU süresi limiti aşıldı (${rule.limits.cpuSeconds} sn)`,
+  memory: (rule) => `Bellek limiti aşıldı (${rule.limits.memoryBytes} bayt)`,
+  processes: (rule) =>
+    `Süreç sayısı limiti aşıldı (${rule.limits.maxProcesses})`,
+  open_files: (rule) =>
+    `Açık dosya limiti aşıldı (${rule.limits.maxOpenFiles})`,
+  output: (rule) =>
+    `Çıktı maksimum uzunluğu aştı (${rule.maxOutputLength} bayt), komut durduruldu`,
+  timeout: (rule) => `Komut zaman aşımına uğradı (${rule.timeout}ms)`,
+};
+
+// Eski protokolde durumların HTTP benzeri çıkış kodu karşılıkları
+const LEGACY_EXIT_CODES: Partial<Record<CommandStatus, number>> = {
+  blocked: 403, // Forbidden
+  timeout: 408, // Request Timeout
+  truncated: 413, // Payload Too Large
+  cancelled: 499, // Client Closed Request
+  rejected: 503, // Service Unavailable (kuyruk dolu)
+  interrupted: 500, // Ajan yeniden başlatıldı
+  internal_error: 500, // Internal Server Error
+};
+
+// SIGTERM sonrası SIGKILL gönderilmeden önce beklenecek süre
+const CANCEL_GRACE_PERIOD = 5_000;
+
+// command_id -> çalışan süreç
+const runningCommands: Map<string, RunningCommand> = new Map();
+
+/**
+ * Sinyali komutun süreç grubuna gönder - komutun başlattığı ve çıktı
+ * borusunu açık tutan alt süreçler de sonlanır
+ */
+const killProcessGroup = (proc: Subprocess, signal: NodeJS.Signals): void => {
+  try {
+    process.kill(-proc.pid, signal);
+  } catch {
+    // Grup kalmadıysa sadece doğrudan sürece gönder
+    proc.kill(signal);
+  }
 };
 
 // Komut validation sonucu
 interface ValidationResult {
   isValid: boolean;
   error?: string;
-  sanitizedCommand?: string;
+  argv?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  rule?: CommandRule;
+  resolvedPath?: string; // Yol ihlalinde çözülmüş gerçek yol
+  policyRevision: string;
 }
 
 /**
- * Komutu güvenlik kontrolünden geçir
+ * Komutu log ve mesajlar için tek satırlık metne çevir
  */
-const validateCommand = (command: string): ValidationResult => {
-  try {
-    // Boş komut kontrolü
-    if (!command || command.trim().length === 0) {
-      return { isValid: false, error: "Boş komut gönderildi" };
+export const describeCommand = (command: CommandInput): string => {
+  if (typeof command === "string") {
+    return command;
+  }
+  return formatShellWords([command.program, ...(command.args || [])]);
+};
+
+/**
+ * Komutu argv dizisine çevir - metin formatı tırnak kurallarıyla ayrıştırılır
+ */
+const toArgv = (command: CommandInput): string[] => {
+  if (typeof command === "string") {
+    return parseShellWords(command.trim());
+  }
+
+  if (!command || typeof command.program !== "string") {
+    throw new Error("program alanı string olmalı");
+  }
+
+  if (
+    command.args !== undefined &&
+    (!Array.isArray(command.args) ||
+      command.args.some((arg) => typeof arg !== "string"))
+  ) {
+    throw new Error("args alanı string listesi olmalı");
+  }
+
+  return [command.program, ...(command.args || [])];
+};
+
+/**
+ * Çalışma dizinini politikadaki izinli dizinlere göre kontrol et.
+ * Yol realpath ile çözülür, böylece sembolik linkler kökten kaçamaz.
+ */
+const validateCwd = (
+  cwd: unknown,
+  policy: CommandPolicy,
+): { cwd?: string; error?: string; resolvedPath?: string } => {
+  if (cwd === undefined) {
+    return { cwd: policy.defaultCwd };
+  }
+
+  if (typeof cwd !== "string" || !path.isAbsolute(cwd)) {
+    return { error: "cwd mutlak bir dizin yolu olmalı" };
+  }
+
+  const resolved = resolveRealPath(cwd);
+
+  if (!findAllowedRoot(resolved, policy.allowedPaths)) {
+    return {
+      error: `Çalışma dizinine izin yok: ${resolved}. İzin verilenler: ${policy.allowedPaths
+        .map((root) => root.path)
+        .join(", ")}`,
+      resolvedPath: resolved,
+    };
+  }
+
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    return { error: `Çalışma dizini bulunamadı: ${resolved}` };
+  }
+
+  return { cwd: resolved };
+};
+
+/**
+ * Yol gibi görünen argümanları komutun erişim türüne göre kontrol et
+ */
+const validatePathArguments = (
+  rule: CommandRule,
+  args: string[],
+  cwd: string,
+  policy: CommandPolicy,
+): { error?: string; resolvedPath?: string } => {
+  if (rule.pathAccess === "none") {
+    return {};
+  }
+
+  // "--" sonrasındaki argümanlar "-" ile başlasa da dosya adıdır
+  let endOfFlags = false;
+
+  for (const arg of args) {
+    if (!endOfFlags && arg === "--") {
+      endOfFlags = true;
+      continue;
+    }
+
+    const candidate = endOfFlags ? arg : extractPathArgument(arg);
+    if (candidate === null) continue;
+
+    const check = checkPathAccess(
+      candidate,
+      cwd,
+      policy.allowedPaths,
+      rule.pathAccess,
+    );
+    if (!check.allowed) {
+      return { error: check.error, resolvedPath: check.resolved };
     }
+  }
+
+  return {};
+};
+
+/**
+ * Komuta verilen ortam değişkenlerini kontrol et - sadece politikanın
+ * allowedEnv listesindeki adlar kabul edilir
+ */
+const validateEnv = (
+  env: unknown,
+  allowedEnv: string[],
+): { env?: Record<string, string>; error?: string } => {
+  if (env === undefined) {
+    return { env: {} };
+  }
+
+  if (typeof env !== "object" || env === null || Array.isArray(env)) {
+    return { error: "env alanı anahtar/değer nesnesi olmalı" };
+  }
 
+  for (const [key, value] of Object.entries(env)) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key) || typeof value !== "string") {
+      return { error: `Geçersiz ortam değişkeni: ${key}` };
+    }
+    if (PROTECTED_ENV_PATTERN.test(key)) {
+      return { error: `Korunan ortam değişkeni değiştirilemez: ${key}` };
+    }
+    if (!allowedEnv.includes(key)) {
+      return { error: `Ortam değişkenine izin verilmiyor: ${key}` };
+    }
+  }
+
+  return { env: env as Record<string, string> };
+};
+
+/**
+ * Komutu aktif politikaya göre güvenlik kontrolünden geçir.
+ * Kontroller ham metin üzerinde değil, ayrıştırılmış argv üzerinde yapılır.
+ */
+export const validateCommand = (
+  command: CommandInput,
+  policy: CommandPolicy = getCommandPolicy(),
+): ValidationResult => {
+  const policyRevision = policy.revision;
+
+  try {
     // Komut uzunluğu kontrolü
-    if (command.length > 1000) {
+    if (describeCommand(command).length > 1000) {
       return {
         isValid: false,
         error: "Komut çok uzun (maksimum 1000 karakter)",
+        policyRevision,
       };
     }
 
-    // Sanitize: Tehlikeli karakterleri temizle
-    const sanitized = command.trim();
-
-    // Tehlikeli operatörleri kontrol et
-    const dangerousPatterns = [
-      /[;&|`$(){}[\]]/g, // Shell operatörleri
-      /\.\./g, // Directory traversal
-      /\/\/+/g, // Çoklu slash
-      /\s+&&\s+/g, // AND operatörü
-      /\s+\|\|\s+/g, // OR operatörü
-      />\s*\/dev\/null/g, // Output redirection
-      /2>&1/g, // Error redirection
-      /\$\(/g, // Command substitution
-      /`/g, // Backtick execution
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(sanitized)) {
-        return {
-          isValid: false,
-          error: `Güvenlik riski: Yasak karakter/operatör tespit edildi`,
-        };
-      }
+    // Tırnakları uygula, kabuk operatörlerini reddet
+    let argv: string[];
+    try {
+      argv = toArgv(command);
+    } catch (error) {
+      return {
+        isValid: false,
+        error: `Komut ayrıştırılamadı: ${
+          error instanceof Error ? error.message : error
+        }`,
+        policyRevision,
+      };
+    }
+
+    // Boş komut kontrolü
+    const [program, ...args] = argv;
+    if (!program) {
+      return { isValid: false, error: "Boş komut gönderildi", policyRevision };
     }
 
-    // Komutu parçala ve ana komutu bul
-    const parts = sanitized.split(/\s+/);
-    const baseCommand = parts[0]?.toLowerCase();
+    if (argv.some((part) => part.includes("\0"))) {
+      return {
+        isValid: false,
+        error: "Komut null karakter içeremez",
+        policyRevision,
+      };
+    }
 
-    if (!baseCommand) {
-      return { isValid: false, error: "Komut adı bulunamadı" };
+    // Program adı PATH üzerinden çözülür, doğrudan yol verilemez
+    if (program.includes("/")) {
+      return {
+        isValid: false,
+        error: `Program adı yol içeremez: ${program}`,
+        policyRevision,
+      };
     }
 
     // Whitelist kontrolü
-    if (!SECURITY_CONFIG.allowedCommands.includes(baseCommand)) {
+    const rule = policy.commands[program];
+    if (!rule) {
       return {
         isValid: false,
-        error: `Komut '${baseCommand}' whitelist'te yok. İzin verilen komutlar: ${SECURITY_CONFIG.allowedCommands.join(
-          ", ",
-        )}`,
+        error: `Komut '${program}' whitelist'te yok. İzin verilen komutlar: ${Object.keys(
+          policy.commands,
+        ).join(", ")}`,
+        policyRevision,
       };
     }
 
-    // Echo komutu için özel validasyon
-    if (baseCommand === "echo") {
-      return validateEchoCommand(sanitized);
+    // Hedef kullanıcıya geçilebiliyor mu (ajan root değilse geçilemez)
+    const runAsError = checkRunAsAllowed(rule.runAs, rule.privileged);
+    if (runAsError) {
+      return { isValid: false, error: runAsError, policyRevision };
+    }
+
+    // Komuta özel argüman kuralları
+    const argumentError = validateArguments(program, rule, args);
+    if (argumentError) {
+      return { isValid: false, error: argumentError, policyRevision };
     }
 
-    return { isValid: true, sanitizedCommand: sanitized };
+    const spec = typeof command === "string" ? undefined : command;
+
+    const cwdCheck = validateCwd(spec?.cwd, policy);
+    if (cwdCheck.error) {
+      return {
+        isValid: false,
+        error: cwdCheck.error,
+        resolvedPath: cwdCheck.resolvedPath,
+        policyRevision,
+      };
+    }
+
+    // Dosya argümanları da izinli köklerle sınırlı (.. ve symlink kaçışları dahil)
+    const pathCheck = validatePathArguments(rule, args, cwdCheck.cwd!, policy);
+    if (pathCheck.error) {
+      return {
+        isValid: false,
+        error: pathCheck.error,
+        resolvedPath: pathCheck.resolvedPath,
+        policyRevision,
+      };
+    }
+
+    const envCheck = validateEnv(spec?.env, rule.allowedEnv);
+    if (envCheck.error) {
+      return { isValid: false, error: envCheck.error, policyRevision };
+    }
+
+    return {
+      isValid: true,
+      argv,
+      cwd: cwdCheck.cwd,
+      env: envCheck.env,
+      rule,
+      policyRevision,
+    };
   } catch (error) {
     return {
       isValid: false,
       error: `Komut validation hatası: ${error}`,
+      policyRevision,
     };
   }
 };
 
 /**
- * Echo komutu için özel güvenlik kontrolü
+ * Argümanları komutun politika kuralına göre kontrol et, hata mesajı döndür
  */
-const validateEchoCommand = (command: string): ValidationResult => {
-  try {
-    // Echo parametrelerini kontrol et
-    const parts = command.split(/\s+/);
+const validateArguments = (
+  baseCommand: string,
+  rule: CommandRule,
+  args: string[],
+): string | null => {
+  if (rule.maxArgs !== undefined && args.length > rule.maxArgs) {
+    return `'${baseCommand}' komutu en fazla ${rule.maxArgs} argüman alabilir`;
+  }
 
-    // Echo bayraklarını kontrol et (sadece güvenli olanlar)
-    const allowedFlags = ["-n", "-e", "-E"];
-    const flags = parts.slice(1).filter((part) => part.startsWith("-"));
+  // Bayraklar tanımlıysa sadece listedekilere izin ver
+  if (rule.allowedFlags) {
+    const flags = args.filter((arg) => arg.startsWith("-"));
 
     for (const flag of flags) {
-      if (!allowedFlags.includes(flag)) {
-        return {
-          isValid: false,
-          error: `Echo komutu için geçersiz bayrak: ${flag}. İzin verilenler: ${allowedFlags.join(
-            ", ",
-          )}`,
-        };
+      if (!rule.allowedFlags.includes(flag)) {
+        return `'${baseCommand}' komutu için geçersiz bayrak: ${flag}. İzin verilenler: ${rule.allowedFlags.join(
+          ", ",
+        )}`;
       }
     }
+  }
 
-    // Output redirection kontrolü
-    if (command.includes(">") || command.includes(">>")) {
-      return {
-        isValid: false,
-        error: "Echo komutu ile dosya yazma işlemi şu an yasak",
-      };
+  if (rule.argPattern) {
+    for (const arg of args) {
+      if (!rule.argPattern.test(arg)) {
+        return `'${baseCommand}' komutu için izin verilmeyen argüman: ${arg}`;
+      }
     }
+  }
 
-    return { isValid: true, sanitizedCommand: command };
-  } catch (error) {
-    return {
-      isValid: false,
-      error: `Echo validation hatası: ${error}`,
-    };
+  return null;
+};
+
+/**
+ * Tampondaki tamamlanmış UTF-8 karakterlerin bayt uzunluğunu bul
+ * (yarım kalan çok baytlı karakter bir sonraki parçaya bırakılır)
+ */
+const completeUtf8Length = (bytes: Uint8Array): number => {
+  for (let i = 1; i <= Math.min(3, bytes.length); i++) {
+    const byte = bytes[bytes.length - i];
+
+    // Devam baytı, geriye doğru aramaya devam et
+    if ((byte & 0xc0) === 0x80) continue;
+
+    const expected =
+      byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return expected > i ? bytes.length - i : bytes.length;
   }
+
+  return bytes.length;
+};
+
+/**
+ * Çıktı akışını parça parça oku, her parçayı bildir ve tüm metni döndür.
+ * onChunk false dönerse okuma bırakılır (çıktı limiti aşıldı).
+ */
+export const readOutputStream = async (
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (data: string, byteLength: number) => void | false,
+): Promise<string> => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let pending = new Uint8Array(0);
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Önceki parçadan kalan yarım karakter baytlarını birleştir
+    const bytes = new Uint8Array(pending.length + value.length);
+    bytes.set(pending);
+    bytes.set(value, pending.length);
+
+    const cut = completeUtf8Length(bytes);
+    pending = bytes.slice(cut);
+
+    if (cut > 0) {
+      const data = decoder.decode(bytes.subarray(0, cut));
+      text += data;
+      if (onChunk(data, cut) === false) {
+        await reader.cancel().catch(() => {});
+        return text;
+      }
+    }
+  }
+
+  // Akış bittiğinde kalan (geçersiz) baytları da gönder
+  if (pending.length > 0) {
+    const data = decoder.decode(pending);
+    text += data;
+    onChunk(data, pending.length);
+  }
+
+  return text;
 };
 
 /**
  * Güvenli sistem komutu çalıştırma fonksiyonu - Whitelist tabanlı
  */
 export const executeCommand = async (
-  command: string,
+  command: CommandInput,
   command_id: string = "",
-): Promise<{
-  success: boolean;
-  output: string;
-  error?: string;
-  exit_code?: number;
-}> => {
+  options: ExecuteCommandOptions = {},
+): Promise<CommandResult> => {
   const startTime = Date.now();
+  const commandLine = describeCommand(command);
+  let chunkCount = 0;
+  let policyRevision = "unknown";
+
+  // Ortak alanları (zamanlama, parça sayısı, revizyon) doldurarak sonucu oluştur
+  const finish = (
+    result: Pick<CommandResult, "status" | "stdout" | "stderr"> &
+      Partial<
+        Pick<CommandResult, "exit_code" | "signal" | "error" | "limit_exceeded">
+      >,
+  ): CommandResult => {
+    const finishedAt = Date.now();
+    return {
+      success: result.status === "ok",
+      exit_code: null,
+      signal: null,
+      ...result,
+      started_at: new Date(startTime).toISOString(),
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - startTime,
+      chunk_count: chunkCount,
+      policy_revision: policyRevision,
+    };
+  };
 
   try {
+    // Komut boyunca aynı politika revizyonu kullanılır (reload ortada değişse bile)
+    const policy = getCommandPolicy();
+    policyRevision = policy.revision;
+
     // Komut başlangıç audit logu
-    logger.commandExecution(command_id, command, "start", {
+    logger.commandExecution(command_id, commandLine, "start", {
       original_command: command,
+      structured: typeof command !== "string",
       timestamp: new Date().toISOString(),
     });
 
     logger.debug("Security validation started", {
       command_id,
-      command_length: command.length,
+      command_length: commandLine.length,
       command_preview:
-        command.substring(0, 50) + (command.length > 50 ? "..." : ""),
+        commandLine.substring(0, 50) + (commandLine.length > 50 ? "..." : ""),
     });
 
     // Komut güvenlik kontrolü
-    const validation = validateCommand(command);
+    const validation = validateCommand(command, policy);
     if (!validation.isValid) {
       // Güvenlik ihlali kaydı
-      logger.securityViolation("Command validation failed", command, {
-        command_id,
-        validation_error: validation.error,
-        blocked_at: new Date().toISOString(),
-      });
+      logger.securityViolation(
+        validation.resolvedPath
+          ? "Path confinement violation"
+          : "Command validation failed",
+        commandLine,
+        {
+          command_id,
+          validation_error: validation.error,
+          resolved_path: validation.resolvedPath,
+          policy_revision: policyRevision,
+          blocked_at: new Date().toISOString(),
+        },
+      );
 
-      logger.commandExecution(command_id, command, "blocked", {
+      logger.commandExecution(command_id, commandLine, "blocked", {
         reason: validation.error,
+        policy_revision: policyRevision,
         execution_time_ms: Date.now() - startTime,
       });
 
-      return {
-        success: false,
-        output: "",
+      return finish({
+        status: "blocked",
+        stdout: "",
+        stderr: "",
         error: `Güvenlik hatası: ${validation.error}`,
-        exit_code: 403, // Forbidden
-      };
+      });
     }
 
-    const sanitizedCommand = validation.sanitizedCommand!;
+    const [program, ...args] = validation.argv!;
+    const rule = validation.rule!;
     logger.info("Security validation passed", {
       command_id,
-      original_command: command,
-      sanitized_command: sanitizedCommand,
+      argv: validation.argv,
+      cwd: validation.cwd,
+      run_as: rule.privileged ? "root" : rule.runAs?.user,
+      policy_revision: policyRevision,
       validation_time_ms: Date.now() - startTime,
     });
 
-    // Timeout ile komut çalıştırma
-    const proc = Bun.spawn(["bash", "-c", sanitizedCommand], {
-      cwd: process.cwd(),
-      env: {
-        ...process.env,
-        HOME: os.homedir(),
-        // Güvenlik için çevresel değişkenleri kısıtla
-        PATH: "/usr/local/bin:/usr/bin:/bin", // Sadece standart PATH
-      },
+    // Programı sadece kısıtlı PATH içinde ara
+    const executable = Bun.which(program, { PATH: SAFE_PATH });
+    if (!executable) {
+      logger.commandExecution(command_id, commandLine, "failed", {
+        reason: "program_not_found",
+        program,
+        execution_time_ms: Date.now() - startTime,
+      });
+
+      return finish({
+        status: "failed",
+        stdout: "",
+        stderr: "",
+        exit_code: 127, // Command not found (kabuk geleneği)
+        error: `Program bulunamadı: ${program}`,
+      });
+    }
+
+    // Kimlik setpriv ile düşürülür, kaynak limitleri prlimit ile uygulanır
+    // (araçlardan biri yoksa komut çalıştırılmaz)
+    const spawnArgv = buildLimitedArgv(
+      buildPrivilegeDropArgv([executable, ...args], rule.runAs, SAFE_PATH),
+      rule.limits,
+      SAFE_PATH,
+    );
+
+    if (rule.privileged) {
+      logger.audit("Privileged command execution", {
+        command_id,
+        argv: validation.argv,
+        cwd: validation.cwd,
+        policy_revision: policyRevision,
+      });
+    }
+
+    // Timeout ile komut çalıştırma - kabuk yok, argv doğrudan exec edilir
+    const proc = Bun.spawn(spawnArgv, {
+      cwd: validation.cwd,
+      // Ajanın ortamı aktarılmaz: sadece PATH, HOME, LANG ve istekteki env
+      env: buildChildEnv(rule.runAs, SAFE_PATH, validation.env),
       stderr: "pipe",
       stdout: "pipe",
+      // Kendi süreç grubunda başlar, limit aşımında torunlarıyla birlikte öldürülür
+      detached: true,
     });
 
-    // Timeout kontrolü
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        proc.kill();
-        reject(
-          new Error(
-            `Komut zaman aşımına uğradı (${SECURITY_CONFIG.timeout}ms)`,
-          ),
-        );
-      }, SECURITY_CONFIG.timeout);
+    // İptal edilebilmesi için süreci kaydet
+    const running: RunningCommand = {
+      proc,
+      cancelled: false,
+      killTimer: null,
+    };
+    if (command_id) {
+      runningCommands.set(command_id, running);
+    }
+
+    // Aşılan limit (timeout ve çıktı limiti burada, rlimit'ler çıkışta tespit edilir)
+    let limitExceeded: LimitKind | null = null;
+
+    // Timeout kontrolü - süreç öldürülür, o ana kadarki çıktı korunur
+    let timeoutHandle: NodeJS.Timeout | null = null;
+    const timeoutPromise = new Promise<number>((resolve) => {
+      timeoutHandle = setTimeout(() => {
+        // Çıktı limiti daha önce aşıldıysa sonuç o limiti raporlar
+        limitExceeded ??= "timeout";
+        killProcessGroup(proc, "SIGKILL");
+        resolve(proc.exited);
+      }, rule.timeout);
     });
 
+    // Artımlı çıktı bildirimi - sıra numarası iki akış için ortak.
+    // stdout+stderr toplamı maxOutputLength baytı geçerse süreç öldürülür.
+    const outputs: Record<OutputStreamName, string> = {
+      stdout: "",
+      stderr: "",
+    };
+    const streamOffsets: Record<OutputStreamName, number> = {
+      stdout: 0,
+      stderr: 0,
+    };
+    let outputBytes = 0;
+
+    const emitChunk =
+      (stream: OutputStreamName) =>
+      (data: string, byteLength: number): void | false => {
+        if (limitExceeded === "output") return false;
+
+        const remaining = rule.maxOutputLength - outputBytes;
+        let overflow = false;
+        if (byteLength > remaining) {
+          // Limite kadar olan kısmı karakter sınırında kes
+          const bytes = Buffer.from(data).subarray(0, remaining);
+          byteLength = completeUtf8Length(bytes);
+          data = bytes.subarray(0, byteLength).toString("utf8");
+          overflow = true;
+        }
+
+        outputBytes += byteLength;
+        outputs[stream] += data;
+
+        if (byteLength > 0) {
+          const chunk: CommandOutputChunk = {
+            stream,
+            data,
+            seq: chunkCount++,
+            offset: streamOffsets[stream],
+          };
+          streamOffsets[stream] += byteLength;
+
+          if (options.onOutput) {
+            try {
+              options.onOutput(chunk);
+            } catch (error) {
+              logger.warn("Command output callback error", {
+                command_id,
+                error: error instanceof Error ? error.message : "Unknown error",
+              });
+            }
+          }
+        }
+
+        if (overflow) {
+          limitExceeded = "output";
+          killProcessGroup(proc, "SIGKILL");
+          return false;
+        }
+      };
+
     // Yarış durumu: ya komut biter ya timeout olur
-    const [stdout, stderr, exitCode] = await Promise.race([
+    await Promise.race([
       Promise.all([
-        new Response(proc.stdout).text(),
-        new Response(proc.stderr).text(),
+        readOutputStream(proc.stdout, emitChunk("stdout")),
+        readOutputStream(proc.stderr, emitChunk("stderr")),
         proc.exited,
       ]),
       timeoutPromise,
-    ]);
+    ]).finally(() => {
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      if (running.killTimer) clearTimeout(running.killTimer);
+      if (runningCommands.get(command_id) === running) {
+        runningCommands.delete(command_id);
+      }
+    });
+    const { stdout, stderr } = outputs;
 
-    // Çıktı uzunluğu kontrolü
-    if (stdout.length > SECURITY_CONFIG.maxOutputLength) {
-      logger.warn("Command output too large", {
-        command_id,
+    // Sinyalle biten süreçte gerçek çıkış kodu yoktur (null)
+    const exitCode = proc.exitCode;
+    // Bun bilinmeyen sinyali numarasıyla bildirir
+    const signal = proc.signalCode === null ? null : String(proc.signalCode);
+
+    // Uzaktan iptal edildiyse ayrı bir sonuç döndür
+    if (running.cancelled) {
+      logger.commandExecution(command_id, commandLine, "cancelled", {
+        execution_time_ms: Date.now() - startTime,
+        exit_code: exitCode,
+        signal,
         output_length: stdout.length,
-        max_allowed: SECURITY_CONFIG.maxOutputLength,
-        truncated: true,
       });
 
-      return {
-        success: false,
-        output: stdout.substring(0, 500) + "\n... (çıktı çok uzun, kısaltıldı)",
-        error: `Çıktı maksimum uzunluğu aştı (${SECURITY_CONFIG.maxOutputLength} karakter)`,
-        exit_code: 413, // Payload Too Large
-      };
+      return finish({
+        status: "cancelled",
+        stdout,
+        stderr,
+        exit_code: exitCode,
+        signal,
+        error: "Komut iptal edildi",
+      });
+    }
+
+    limitExceeded ??= detectLimitExceeded(
+      rule.limits,
+      exitCode,
+      signal,
+      stderr,
+    );
+
+    if (limitExceeded) {
+      logger.warn("Command resource limit exceeded", {
+        command_id,
+        limit: limitExceeded,
+        limits: rule.limits,
+        timeout_ms: rule.timeout,
+        max_output_bytes: rule.maxOutputLength,
+        output_bytes: outputBytes,
+        exit_code: exitCode,
+        signal,
+      });
+
+      logger.commandExecution(command_id, commandLine, "failed", {
+        execution_time_ms: Date.now() - startTime,
+        limit_exceeded: limitExceeded,
+        exit_code: exitCode,
+        signal,
+      });
+
+      return finish({
+        status:
+          limitExceeded === "timeout"
+            ? "timeout"
+            : limitExceeded === "output"
+              ? "truncated"
+              : "failed",
+        stdout,
+        stderr,
+        exit_code: exitCode,
+        signal,
+        error: LIMIT_MESSAGES[limitExceeded](rule),
+        limit_exceeded: limitExceeded,
+      });
     }
 
     const executionTime = Date.now() - startTime;
@@ -262,82 +849,147 @@ export const executeCommand = async (
     logger.performanceMetric("command_execution_time", executionTime, "ms", {
       command_id,
       exit_code: exitCode,
+      signal,
       output_length: stdout.length,
       error_length: stderr?.length || 0,
     });
 
     // Komut tamamlanma logu
     if (exitCode === 0) {
-      logger.commandExecution(command_id, command, "success", {
+      logger.commandExecution(command_id, commandLine, "success", {
         execution_time_ms: executionTime,
         output_length: stdout.length,
         stderr_length: stderr?.length || 0,
       });
     } else {
-      logger.commandExecution(command_id, command, "failed", {
+      logger.commandExecution(command_id, commandLine, "failed", {
         execution_time_ms: executionTime,
         exit_code: exitCode,
+        signal,
         output_length: stdout.length,
         stderr_length: stderr?.length || 0,
         error_output: stderr,
       });
     }
 
-    return {
-      success: exitCode === 0,
-      output: stdout,
-      error: stderr || undefined,
+    return finish({
+      status: exitCode === 0 ? "ok" : "failed",
+      stdout,
+      stderr,
       exit_code: exitCode,
-    };
+      signal,
+    });
   } catch (error: any) {
     const executionTime = Date.now() - startTime;
 
     logger.error("Command execution error", {
       command_id,
-      command,
+      command: commandLine,
       error: error?.message || "Unknown error",
       execution_time_ms: executionTime,
       stack_trace: error?.stack,
     });
 
-    logger.commandExecution(command_id, command, "failed", {
+    logger.commandExecution(command_id, commandLine, "failed", {
       execution_time_ms: executionTime,
       error: error?.message || "Unknown error",
       error_type: "system_error",
     });
 
-    return {
-      success: false,
-      output: "",
+    return finish({
+      status: "internal_error",
+      stdout: "",
+      stderr: "",
       error: error?.message || "Bilinmeyen hata",
-      exit_code: 500, // Internal Server Error
-    };
+    });
   }
 };
 
 /**
- * Güvenlik konfigürasyonunu döndür (debugging için)
+ * Sonucu protokol v1 biçimine çevir: tek çıktı alanı ve HTTP benzeri kodlar
  */
-export const getSecurityConfig = (): CommandSecurityConfig => {
-  return { ...SECURITY_CONFIG };
+export const toLegacyCommandResult = (
+  result: CommandResult,
+): LegacyCommandResult => {
+  const exitCode =
+    LEGACY_EXIT_CODES[result.status] ??
+    result.exit_code ??
+    (result.signal
+      ? 128 + (os.constants.signals[result.signal as NodeJS.Signals] ?? 0)
+      : 1);
+
+  return {
+    success: result.success,
+    output: result.stdout,
+    error:
+      [result.error, result.stderr].filter(Boolean).join("\n") || undefined,
+    exit_code: exitCode,
+    cancelled: result.status === "cancelled" || undefined,
+  };
 };
 
 /**
- * Yeni komut whitelist'e ekle (geliştirme aşamasında kullanılacak)
+ * Çalışan komutu iptal et - önce SIGTERM, süre dolarsa SIGKILL
  */
-export const addToWhitelist = (command: string): boolean => {
-  try {
-    if (!SECURITY_CONFIG.allowedCommands.includes(command)) {
-      SECURITY_CONFIG.allowedCommands.push(command);
-      console.log(`✅ Komut whitelist'e eklendi: ${command}`);
-      return true;
-    }
-    console.log(`⚠️ Komut zaten whitelist'te: ${command}`);
-    return false;
-  } catch (error) {
-    console.error(`❌ Whitelist ekleme hatası: ${error}`);
+export const cancelRunningCommand = (
+  command_id: string,
+  gracePeriodMs: number = CANCEL_GRACE_PERIOD,
+): boolean => {
+  const running = runningCommands.get(command_id);
+  if (!running) {
     return false;
   }
+
+  // Zaten iptal ediliyorsa tekrar sinyal gönderme
+  if (running.cancelled) {
+    return true;
+  }
+
+  running.cancelled = true;
+  killProcessGroup(running.proc, "SIGTERM");
+
+  running.killTimer = setTimeout(() => {
+    if (running.proc.exitCode === null && running.proc.signalCode === null) {
+      logger.warn("Command did not exit after SIGTERM, sending SIGKILL", {
+        command_id,
+        grace_period_ms: gracePeriodMs,
+      });
+      killProcessGroup(running.proc, "SIGKILL");
+    }
+  }, gracePeriodMs);
+
+  logger.info("Command cancellation requested", {
+    command_id,
+    pid: running.proc.pid,
+    grace_period_ms: gracePeriodMs,
+  });
+
+  return true;
+};
+
+/**
+ * Komut şu an çalışıyor mu?
+ */
+export const isCommandRunning = (command_id: string): boolean => {
+  return runningCommands.has(command_id);
+};
+
+/**
+ * Güvenlik konfigürasyonunu döndür (debugging için)
+ */
+export const getSecurityConfig = (): CommandSecurityConfig => {
+  const policy = getCommandPolicy();
+  return {
+    revision: policy.revision,
+    allowedCommands: Object.keys(policy.commands),
+    maxOutputLength: policy.maxOutputLength,
+    timeout: policy.timeout,
+    limits: { ...policy.limits },
+    runAs: policy.runAs?.user ?? null,
+    privilegedCommands: [...policy.privilegedCommands],
+    allowedPaths: policy.allowedPaths.map((root) => ({ ...root })),
+    defaultCwd: policy.defaultCwd,
+  };
 };
 
 /**
@@ -0,0 +1,301 @@
+// Ayrıştırılmış cron ifadesi (her alan için izin verilen değerler)
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 = Pazar
+  domRestricted: boolean; // Gün alanı "*" değil
+  dowRestricted: boolean; // Haftanın günü alanı "*" değil
+}
+
+// Saat dilimindeki duvar saati
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Alan sırası: dakika, saat, ayın günü, ay, haftanın günü
+const FIELDS = [
+  { name: "dakika", min: 0, max: 59 },
+  { name: "saat", min: 0, max: 23 },
+  { name: "ayın günü", min: 1, max: 31 },
+  { name: "ay", min: 1, max: 12, names: MONTH_NAMES, offset: 1 },
+  { name: "haftanın günü", min: 0, max: 7, names: WEEKDAY_NAMES, offset: 0 },
+];
+
+// Bir sonraki çalışma en fazla bu kadar ileride aranır
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Saat dilimi için (önbellekli) tarih biçimlendirici
+ */
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * IANA saat dilimi adı geçerli mi? (ör. "Europe/Istanbul", "UTC")
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getZonedParts = (time: number, timezone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+  };
+};
+
+/**
+ * Saat diliminin verilen andaki UTC'ye göre farkı (ms)
+ */
+const getZoneOffset = (time: number, timezone: string): number => {
+  const parts = getZonedParts(time, timezone);
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  return wall - time;
+};
+
+/**
+ * Saat dilimindeki yerel tarih ve saatin UTC anı. Saat ileri alınırken
+ * atlanan yerel saat, geçiş süresi kadar ileri kayar.
+ */
+const zonedTimeToUtc = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string,
+): number => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Duvar saatini UTC sanıp farkı iki kez düzelt (geçiş günlerinde fark değişir)
+  let time = wall;
+  for (let i = 0; i < 2; i++) {
+    time = wall - getZoneOffset(time, timezone);
+  }
+
+  return time;
+};
+
+/**
+ * Yerel takvimde ertesi günün başlangıcı (gün 23 veya 25 saat sürebilir)
+ */
+const startOfNextDay = (parts: ZonedParts, timezone: string): number => {
+  const next = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + 1));
+  return zonedTimeToUtc(
+    next.getUTCFullYear(),
+    next.getUTCMonth() + 1,
+    next.getUTCDate(),
+    0,
+    0,
+    timezone,
+  );
+};
+
+/**
+ * Tek bir cron alanını (liste, aralık, adım, isim) değer kümesine çevir
+ */
+const parseField = (
+  value: string,
+  field: (typeof FIELDS)[number],
+): Set<number> => {
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const index = field.names?.indexOf(token.toLowerCase()) ?? -1;
+    const number = index !== -1 ? index + (field.offset || 0) : Number(token);
+
+    if (!Number.isInteger(number) || number < field.min || number > field.max) {
+      throw new Error(`Geçersiz ${field.name} değeri: ${token}`);
+    }
+    return number;
+  };
+
+  for (const part of value.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Geçersiz ${field.name} adımı: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) {
+        throw new Error(`Geçersiz ${field.name} aralığı: ${range}`);
+      }
+    } else {
+      start = toNumber(range);
+      // "5/15" gibi adımlı tek değer alanın sonuna kadar gider
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let i = start; i <= end; i += step) {
+      values.add(i);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * 5 alanlı cron ifadesini ayrıştır (dakika saat gün ay haftanın-günü).
+ * @daily, @hourly gibi kısaltmalar da desteklenir.
+ */
+export const parseCronExpression = (expression: string): CronSchedule => {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] || expression;
+  const parts = normalized.trim().split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(
+      `Cron ifadesi 5 alan içermeli (dakika saat gün ay haftanın-günü): ${expression}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map(
+    (part, index) => parseField(part, FIELDS[index]),
+  );
+
+  // 7 de Pazar anlamına gelir
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*",
+  };
+};
+
+/**
+ * Gün eşleşmesi: iki gün alanı da kısıtlıysa biri yeterli (standart cron)
+ */
+const matchesDay = (schedule: CronSchedule, parts: ZonedParts): boolean => {
+  const dom = schedule.daysOfMonth.has(parts.day);
+  const dow = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+};
+
+/**
+ * Verilen andan sonraki ilk çalışma zamanı (saat diliminin duvar saatine göre).
+ * Eşleşme bulunamazsa (ör. 31 Şubat) null döner.
+ */
+export const nextCronTime = (
+  schedule: CronSchedule,
+  after: Date,
+  timezone: string = "UTC",
+): Date | null => {
+  const minuteMs = 60 * 1000;
+  // Bir sonraki tam dakikadan başla
+  let time = Math.floor(after.getTime() / minuteMs) * minuteMs + minuteMs;
+  const limit = time + MAX_SEARCH_MS;
+
+  while (time < limit) {
+    const parts = getZonedParts(time, timezone);
+
+    // Uymayan alanda dakika dakika ilerlemek yerine o alanın sonuna atla.
+    // Gün, sabit süre eklenerek değil yerel takvimle ilerler (yaz saati).
+    if (!schedule.months.has(parts.month) || !matchesDay(schedule, parts)) {
+      time = Math.max(startOfNextDay(parts, timezone), time + minuteMs);
+      continue;
+    }
+    if (!schedule.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * minuteMs;
+      continue;
+    }
+    if (!schedule.minutes.has(parts.minute)) {
+      time += minuteMs;
+      continue;
+    }
+
+    return new Date(time);
+  }
+
+  return null;
+};
@@ -0,0 +1,123 @@
+// Alt süreçlere uygulanan kaynak limitleri (rlimit)
+export interface ResourceLimits {
+  cpuSeconds?: number; // RLIMIT_CPU - aşılırsa SIGXCPU
+  memoryBytes?: number; // RLIMIT_AS - adres alanı
+  maxProcesses?: number; // RLIMIT_NPROC - kullanıcı başına süreç sayısı
+  maxOpenFiles?: number; // RLIMIT_NOFILE
+}
+
+// Hangi limitin aşıldığı (command_result.limit_exceeded)
+export type LimitKind =
+  | "cpu"
+  | "memory"
+  | "processes"
+  | "open_files"
+  | "output"
+  | "timeout";
+
+export const RESOURCE_LIMIT_KEYS: Array<keyof ResourceLimits> = [
+  "cpuSeconds",
+  "memoryBytes",
+  "maxProcesses",
+  "maxOpenFiles",
+];
+
+// Limit -> prlimit seçeneği
+const PRLIMIT_OPTIONS: Record<keyof ResourceLimits, string> = {
+  cpuSeconds: "--cpu",
+  memoryBytes: "--as",
+  maxProcesses: "--nproc",
+  maxOpenFiles: "--nofile",
+};
+
+// Limit aşımında programların tipik olarak yazdığı hata mesajları
+const STDERR_PATTERNS: Array<{
+  key: keyof ResourceLimits;
+  kind: LimitKind;
+  pattern: RegExp;
+}> = [
+  {
+    key: "memoryBytes",
+    kind: "memory",
+    pattern:
+      /cannot allocate memory|out of memory|memoryerror|bad_alloc|memory exhausted/i,
+  },
+  {
+    key: "maxProcesses",
+    kind: "processes",
+    pattern:
+      /fork: retry|cannot fork|fork failed|resource temporarily unavailable/i,
+  },
+  {
+    key: "maxOpenFiles",
+    kind: "open_files",
+    pattern: /too many open files/i,
+  },
+];
+
+/**
+ * Tanımlı limit var mı?
+ */
+export const hasResourceLimits = (limits: ResourceLimits): boolean => {
+  return RESOURCE_LIMIT_KEYS.some((key) => limits[key] !== undefined);
+};
+
+/**
+ * argv'yi limitleri uygulayan prlimit sarmalayıcısıyla çevir.
+ * Limit tanımlı ama prlimit yoksa komut limitsiz çalıştırılmaz, hata fırlatılır.
+ */
+export const buildLimitedArgv = (
+  argv: string[],
+  limits: ResourceLimits,
+  searchPath: string,
+): string[] => {
+  if (!hasResourceLimits(limits)) {
+    return argv;
+  }
+
+  const prlimit = Bun.which("prlimit", { PATH: searchPath });
+  if (!prlimit) {
+    throw new Error("Kaynak limitleri uygulanamıyor: prlimit bulunamadı");
+  }
+
+  const options = RESOURCE_LIMIT_KEYS.filter(
+    (key) => limits[key] !== undefined,
+  ).map((key) => {
+    // CPU'da soft == hard olursa çekirdek doğrudan SIGKILL gönderir;
+    // hard limit bir saniye yukarıda tutulur ki SIGXCPU ile ayırt edilebilsin
+    const value =
+      key === "cpuSeconds"
+        ? `${limits.cpuSeconds}:${limits.cpuSeconds! + 1}`
+        : String(limits[key]);
+    return `${PRLIMIT_OPTIONS[key]}=${value}`;
+  });
+
+  return [prlimit, ...options, "--", ...argv];
+};
+
+/**
+ * Süreç sonucundan hangi rlimit'in aşıldığını tahmin et.
+ * CPU sinyalden kesin olarak anlaşılır, diğerleri stderr mesajlarından çıkarılır.
+ */
+export const detectLimitExceeded = (
+  limits: ResourceLimits,
+  exitCode: number | null,
+  signal: string | null,
+  stderr: string,
+): LimitKind | null => {
+  if (limits.cpuSeconds !== undefined && signal === "SIGXCPU") {
+    return "cpu";
+  }
+
+  if (exitCode === 0 && !signal) {
+    return null;
+  }
+
+  for (const { key, kind, pattern } of STDERR_PATTERNS) {
+    if (limits[key] !== undefined && pattern.test(stderr)) {
+      return kind;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+
+// İzin verilen kök dizin erişim modu
+export type RootMode = "ro" | "rw";
+
+// Komutun dosya argümanlarıyla yaptığı erişim (none: yol kontrolü yapılmaz)
+export type PathAccess = "none" | "read" | "write";
+
+// İzin verilen kök dizin (gerçek yolu çözülmüş)
+export interface AllowedRoot {
+  path: string;
+  mode: RootMode;
+}
+
+// Yol kontrol sonucu
+export interface PathCheckResult {
+  allowed: boolean;
+  requested: string;
+  resolved: string;
+  root?: AllowedRoot;
+  error?: string;
+}
+
+/**
+ * Yolu sembolik linkler ve .. bileşenleri çözülmüş gerçek haline getir.
+ * Henüz var olmayan hedeflerde (yazılacak dosya) var olan en yakın üst dizin
+ * çözülür ve kalan bileşenler eklenir.
+ */
+export const resolveRealPath = (target: string): string => {
+  const absolute = path.resolve(target);
+  const missing: string[] = [];
+  let current = absolute;
+
+  while (true) {
+    try {
+      const real = fs.realpathSync(current);
+      return missing.length > 0 ? path.join(real, ...missing.reverse()) : real;
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return absolute;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+};
+
+/**
+ * Yolu içeren en spesifik kök dizini bul
+ */
+export const findAllowedRoot = (
+  resolved: string,
+  roots: AllowedRoot[],
+): AllowedRoot | null => {
+  let match: AllowedRoot | null = null;
+
+  for (const root of roots) {
+    const inside =
+      resolved === root.path ||
+      resolved.startsWith(
+        root.path.endsWith(path.sep) ? root.path : root.path + path.sep,
+      );
+
+    if (inside && (!match || root.path.length > match.path.length)) {
+      match = root;
+    }
+  }
+
+  return match;
+};
+
+/**
+ * İstenen yolun izinli kökler içinde ve istenen erişim moduna uygun olduğunu doğrula
+ */
+export const checkPathAccess = (
+  requested: string,
+  cwd: string,
+  roots: AllowedRoot[],
+  access: Exclude<PathAccess, "none">,
+): PathCheckResult => {
+  const resolved = resolveRealPath(path.resolve(cwd, requested));
+  const root = findAllowedRoot(resolved, roots);
+
+  if (!root) {
+    return {
+      allowed: false,
+      requested,
+      resolved,
+      error: `İzinli dizinlerin dışında: ${resolved}`,
+    };
+  }
+
+  if (access === "write" && root.mode !== "rw") {
+    return {
+      allowed: false,
+      requested,
+      resolved,
+      root,
+      error: `Salt okunur dizine yazma izni yok: ${resolved} (${root.path})`,
+    };
+  }
+
+  return { allowed: true, requested, resolved, root };
+};
+
+/**
+ * Argümanın dosya yolu olarak kontrol edilecek kısmını döndür. Bayrak olmayan
+ * her argüman cwd'ye göre yol sayılır (argv kabuksuz çalıştığından "leak" ile
+ * "./leak" aynı dosyadır). --file=/x ve -f/x biçimindeki bayrak değerleri de
+ * kontrol edilir; değersiz bayraklar için null döner.
+ */
+export const extractPathArgument = (arg: string): string | null => {
+  if (arg === "" || arg === "-" || arg === "--") {
+    return null;
+  }
+
+  if (arg.startsWith("--")) {
+    const separator = arg.indexOf("=");
+    return separator === -1 ? null : arg.substring(separator + 1) || null;
+  }
+
+  if (arg.startsWith("-")) {
+    // Kısa bayrağa bitişik değer (-f/etc/passwd) veya birleşik bayraklar (-la)
+    const separator = arg.indexOf("=");
+    if (separator !== -1) {
+      return arg.substring(separator + 1) || null;
+    }
+    return arg.length > 2 ? arg.substring(2) : null;
+  }
+
+  return arg;
+};
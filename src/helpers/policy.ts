@@ -0,0 +1,607 @@
+import fs from "fs";
+import crypto from "crypto";
+import { COMMAND_POLICY_PATH } from "../config";
+import { logger } from "../services/logger";
+import {
+  resolveRealPath,
+  findAllowedRoot,
+  AllowedRoot,
+  PathAccess,
+} from "./pathGuard";
+import { ResourceLimits, RESOURCE_LIMIT_KEYS } from "./limits";
+import { resolveRunAs, RunAsDefinition, RunAsIdentity } from "./privileges";
+
+// Komut bazlı argüman kuralı (politika dosyasındaki hali)
+interface CommandRuleDefinition {
+  allowedFlags?: string[]; // Tanımlıysa sadece bu bayraklara izin verilir
+  argPattern?: string; // Her argümanın uyması gereken regex
+  maxArgs?: number;
+  pathAccess?: PathAccess; // Dosya argümanlarının erişim türü (varsayılan: read)
+  timeout?: number; // Genel timeout'u bu komut için ezer
+  maxOutputLength?: number; // Genel çıktı limitini bu komut için ezer
+  limits?: ResourceLimits; // Genel kaynak limitlerini alan bazında ezer
+  runAs?: RunAsDefinition; // Genel runAs kimliğini bu komut için ezer
+  allowedEnv?: string[]; // Genel ortam değişkeni listesini bu komut için ezer
+}
+
+// Derlenmiş komut kuralı
+export interface CommandRule {
+  allowedFlags?: string[];
+  argPattern?: RegExp;
+  maxArgs?: number;
+  pathAccess: PathAccess;
+  timeout: number;
+  maxOutputLength: number; // stdout+stderr toplam bayt sınırı
+  limits: ResourceLimits;
+  runAs: RunAsIdentity | null; // null: ajanın kendi kullanıcısı
+  privileged: boolean; // privilegedCommands listesinde, root olarak çalışır
+  allowedEnv: string[]; // İstekte verilebilecek ortam değişkenleri
+}
+
+// Yüklenmiş ve doğrulanmış komut politikası
+export interface CommandPolicy {
+  revision: string;
+  source: string;
+  loadedAt: string;
+  maxOutputLength: number;
+  timeout: number;
+  limits: ResourceLimits;
+  runAs: RunAsIdentity | null;
+  privilegedCommands: string[];
+  allowedEnv: string[];
+  allowedPaths: AllowedRoot[];
+  defaultCwd: string;
+  commands: Record<string, CommandRule>;
+}
+
+/**
+ * Politika doğrulama hatası - tüm sorunları tek seferde listeler
+ */
+export class PolicyValidationError extends Error {
+  public readonly errors: string[];
+
+  constructor(source: string, errors: string[]) {
+    super(
+      `Komut politikası geçersiz (${source}):\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
+    this.name = "PolicyValidationError";
+    this.errors = errors;
+  }
+}
+
+// Politika dosyası yoksa kullanılan yerleşik politika - sadece echo
+const DEFAULT_POLICY_DEFINITION = {
+  revision: "builtin-1",
+  maxOutputLength: 10_000, // Maksimum çıktı uzunluğu (10KB)
+  timeout: 30_000, // 30 saniye timeout
+  limits: {
+    cpuSeconds: 10,
+    memoryBytes: 512 * 1024 * 1024, // 512MB adres alanı
+    maxOpenFiles: 256,
+  },
+  allowedPaths: [
+    { path: "/tmp", mode: "rw" }, // Geçici dosyalar için
+    { path: "/var/log", mode: "ro" }, // Log dosyaları için (okuma)
+  ],
+  defaultCwd: "/tmp",
+  commands: {
+    echo: {
+      allowedFlags: ["-n", "-e", "-E"],
+      argPattern: "^[^<>]*$", // Dosyaya yönlendirme yasak
+      pathAccess: "none", // Argümanlar dosya olarak kullanılmaz
+    },
+  },
+};
+
+const TOP_LEVEL_KEYS = [
+  "revision",
+  "maxOutputLength",
+  "timeout",
+  "limits",
+  "runAs",
+  "privilegedCommands",
+  "allowedEnv",
+  "allowedPaths",
+  "defaultCwd",
+  "commands",
+];
+const RULE_KEYS = [
+  "allowedFlags",
+  "argPattern",
+  "maxArgs",
+  "pathAccess",
+  "timeout",
+  "maxOutputLength",
+  "limits",
+  "runAs",
+  "allowedEnv",
+];
+const PATH_ACCESS_VALUES: PathAccess[] = ["none", "read", "write"];
+
+let currentPolicy: CommandPolicy | null = null;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Bilinmeyen alanları yazım hatası olarak raporla
+ */
+const checkUnknownKeys = (
+  value: Record<string, any>,
+  allowed: string[],
+  prefix: string,
+  errors: string[],
+): void => {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${prefix}${key}: bilinmeyen alan`);
+    }
+  }
+};
+
+/**
+ * Kaynak limitlerini doğrula - her alan pozitif tam sayı olmalı
+ */
+const compileLimits = (
+  value: unknown,
+  prefix: string,
+  errors: string[],
+): ResourceLimits => {
+  if (!isPlainObject(value)) {
+    errors.push(`${prefix}: nesne olmalı`);
+    return {};
+  }
+
+  checkUnknownKeys(value, RESOURCE_LIMIT_KEYS, `${prefix}.`, errors);
+
+  const limits: ResourceLimits = {};
+  for (const key of RESOURCE_LIMIT_KEYS) {
+    if (value[key] === undefined) continue;
+
+    if (!isPositiveInteger(value[key])) {
+      errors.push(`${prefix}.${key}: pozitif tam sayı olmalı`);
+    } else {
+      limits[key] = value[key];
+    }
+  }
+
+  return limits;
+};
+
+/**
+ * İzin verilen ortam değişkeni adlarını doğrula
+ */
+const compileAllowedEnv = (
+  value: unknown,
+  prefix: string,
+  errors: string[],
+): string[] => {
+  if (
+    !Array.isArray(value) ||
+    value.some(
+      (name) =>
+        typeof name !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name),
+    )
+  ) {
+    errors.push(`${prefix}: ortam değişkeni adı listesi olmalı`);
+    return [];
+  }
+
+  return Array.from(new Set(value as string[]));
+};
+
+/**
+ * Tek bir komut kuralını doğrula ve derle
+ */
+const compileRule = (
+  name: string,
+  definition: unknown,
+  defaults: {
+    timeout: number;
+    maxOutputLength: number;
+    limits: ResourceLimits;
+    runAs: RunAsIdentity | null;
+    allowedEnv: string[];
+  },
+  privileged: boolean,
+  errors: string[],
+): CommandRule | null => {
+  const prefix = `commands.${name}.`;
+
+  if (!/^[A-Za-z0-9._+-]+$/.test(name)) {
+    errors.push(
+      `commands.${name}: komut adı sadece harf, rakam ve ._+- içerebilir`,
+    );
+    return null;
+  }
+
+  if (!isPlainObject(definition)) {
+    errors.push(`commands.${name}: nesne olmalı`);
+    return null;
+  }
+
+  const rule = definition as CommandRuleDefinition;
+  const errorCount = errors.length;
+  checkUnknownKeys(definition, RULE_KEYS, prefix, errors);
+
+  if (rule.allowedFlags !== undefined) {
+    if (
+      !Array.isArray(rule.allowedFlags) ||
+      rule.allowedFlags.some(
+        (flag) => typeof flag !== "string" || !flag.startsWith("-"),
+      )
+    ) {
+      errors.push(
+        `${prefix}allowedFlags: '-' ile başlayan string listesi olmalı`,
+      );
+    }
+  }
+
+  let argPattern: RegExp | undefined;
+  if (rule.argPattern !== undefined) {
+    if (typeof rule.argPattern !== "string") {
+      errors.push(`${prefix}argPattern: string olmalı`);
+    } else {
+      try {
+        argPattern = new RegExp(rule.argPattern);
+      } catch (error) {
+        errors.push(
+          `${prefix}argPattern: geçersiz regex (${
+            error instanceof Error ? error.message : error
+          })`,
+        );
+      }
+    }
+  }
+
+  if (
+    rule.maxArgs !== undefined &&
+    !(Number.isInteger(rule.maxArgs) && rule.maxArgs >= 0)
+  ) {
+    errors.push(`${prefix}maxArgs: negatif olmayan tam sayı olmalı`);
+  }
+
+  if (
+    rule.pathAccess !== undefined &&
+    !PATH_ACCESS_VALUES.includes(rule.pathAccess)
+  ) {
+    errors.push(
+      `${prefix}pathAccess: ${PATH_ACCESS_VALUES.join(", ")} değerlerinden biri olmalı`,
+    );
+  }
+
+  for (const key of ["timeout", "maxOutputLength"] as const) {
+    if (rule[key] !== undefined && !isPositiveInteger(rule[key])) {
+      errors.push(`${prefix}${key}: pozitif tam sayı olmalı`);
+    }
+  }
+
+  const limits =
+    rule.limits !== undefined
+      ? compileLimits(rule.limits, `${prefix}limits`, errors)
+      : {};
+
+  const allowedEnv =
+    rule.allowedEnv !== undefined
+      ? compileAllowedEnv(rule.allowedEnv, `${prefix}allowedEnv`, errors)
+      : defaults.allowedEnv;
+
+  // Ayrıcalıklı komutlar kimlik düşürmeden (root) çalışır
+  let runAs = privileged ? null : defaults.runAs;
+  if (rule.runAs !== undefined) {
+    if (privileged) {
+      errors.push(
+        `${prefix}runAs: privilegedCommands listesindeki komut için runAs verilemez`,
+      );
+    } else {
+      runAs = resolveRunAs(rule.runAs, `${prefix}runAs`, errors);
+    }
+  }
+
+  if (runAs?.uid === 0) {
+    errors.push(
+      `${prefix}runAs: root olarak çalışacak komut privilegedCommands listesinde olmalı`,
+    );
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return {
+    allowedFlags: rule.allowedFlags,
+    argPattern,
+    maxArgs: rule.maxArgs,
+    pathAccess: rule.pathAccess ?? "read",
+    timeout: rule.timeout ?? defaults.timeout,
+    maxOutputLength: rule.maxOutputLength ?? defaults.maxOutputLength,
+    limits: { ...defaults.limits, ...limits },
+    runAs,
+    privileged,
+    allowedEnv,
+  };
+};
+
+/**
+ * İzinli dizinleri doğrula ve gerçek yollarına çöz.
+ * String girdi salt okunur kök, { path, mode } nesnesi açık modlu kök tanımlar.
+ */
+const compileAllowedPaths = (
+  value: unknown,
+  errors: string[],
+): AllowedRoot[] => {
+  if (!Array.isArray(value)) {
+    errors.push("allowedPaths: liste olmalı");
+    return [];
+  }
+
+  const roots: AllowedRoot[] = [];
+
+  value.forEach((entry, index) => {
+    const prefix = `allowedPaths[${index}]`;
+    const definition = typeof entry === "string" ? { path: entry } : entry;
+
+    if (!isPlainObject(definition)) {
+      errors.push(`${prefix}: string veya { path, mode } nesnesi olmalı`);
+      return;
+    }
+
+    checkUnknownKeys(definition, ["path", "mode"], `${prefix}.`, errors);
+
+    const mode = definition.mode ?? "ro";
+    if (mode !== "ro" && mode !== "rw") {
+      errors.push(`${prefix}.mode: "ro" veya "rw" olmalı`);
+      return;
+    }
+
+    if (
+      typeof definition.path !== "string" ||
+      !definition.path.startsWith("/")
+    ) {
+      errors.push(`${prefix}.path: mutlak dizin yolu olmalı`);
+      return;
+    }
+
+    // Kökler de sembolik linklerden arındırılır, yoksa karşılaştırma yanıltır
+    let real: string;
+    try {
+      real = fs.realpathSync(definition.path);
+    } catch {
+      errors.push(`${prefix}.path: dizin bulunamadı (${definition.path})`);
+      return;
+    }
+
+    roots.push({ path: real, mode });
+  });
+
+  return roots;
+};
+
+/**
+ * Ham politika verisini doğrula ve derle, hata varsa hepsini birlikte fırlat
+ */
+export const parseCommandPolicy = (
+  raw: unknown,
+  source: string,
+  content: string = JSON.stringify(raw),
+): CommandPolicy => {
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new PolicyValidationError(source, ["kök değer nesne olmalı"]);
+  }
+
+  checkUnknownKeys(raw, TOP_LEVEL_KEYS, "", errors);
+
+  if (
+    raw.revision !== undefined &&
+    (typeof raw.revision !== "string" || raw.revision.trim().length === 0)
+  ) {
+    errors.push("revision: boş olmayan string olmalı");
+  }
+
+  const maxOutputLength = raw.maxOutputLength ?? 10_000;
+  if (!isPositiveInteger(maxOutputLength)) {
+    errors.push("maxOutputLength: pozitif tam sayı olmalı");
+  }
+
+  const timeout = raw.timeout ?? 30_000;
+  if (!isPositiveInteger(timeout)) {
+    errors.push("timeout: pozitif tam sayı (ms) olmalı");
+  }
+
+  const limits =
+    raw.limits !== undefined ? compileLimits(raw.limits, "limits", errors) : {};
+
+  // Komutların varsayılan olarak çalıştırılacağı yetkisiz kullanıcı
+  let runAs: RunAsIdentity | null = null;
+  if (raw.runAs !== undefined) {
+    runAs = resolveRunAs(raw.runAs, "runAs", errors);
+    if (runAs?.uid === 0) {
+      errors.push(
+        "runAs: root olamaz, root gerektiren komutlar privilegedCommands ile listelenmeli",
+      );
+      runAs = null;
+    }
+  }
+
+  const privilegedCommands = raw.privilegedCommands ?? [];
+  if (
+    !Array.isArray(privilegedCommands) ||
+    privilegedCommands.some((name) => typeof name !== "string")
+  ) {
+    errors.push("privilegedCommands: komut adı listesi olmalı");
+  } else if (isPlainObject(raw.commands)) {
+    for (const name of privilegedCommands) {
+      if (!(name in raw.commands)) {
+        errors.push(`privilegedCommands: '${name}' commands içinde tanımlı değil`);
+      }
+    }
+  }
+
+  // İstekle verilebilecek ortam değişkenleri, listede olmayanlar reddedilir
+  const allowedEnv =
+    raw.allowedEnv !== undefined
+      ? compileAllowedEnv(raw.allowedEnv, "allowedEnv", errors)
+      : [];
+
+  const allowedPaths = compileAllowedPaths(raw.allowedPaths ?? [], errors);
+
+  // Varsayılan çalışma dizini belirtilmemişse ilk izinli kök kullanılır
+  let defaultCwd = allowedPaths[0]?.path ?? process.cwd();
+  if (raw.defaultCwd !== undefined) {
+    if (typeof raw.defaultCwd !== "string" || !raw.defaultCwd.startsWith("/")) {
+      errors.push("defaultCwd: mutlak dizin yolu olmalı");
+    } else {
+      defaultCwd = resolveRealPath(raw.defaultCwd);
+
+      if (!fs.existsSync(defaultCwd) || !fs.statSync(defaultCwd).isDirectory()) {
+        errors.push(`defaultCwd: dizin bulunamadı (${raw.defaultCwd})`);
+      } else if (
+        allowedPaths.length > 0 &&
+        !findAllowedRoot(defaultCwd, allowedPaths)
+      ) {
+        errors.push("defaultCwd: izinli dizinlerden birinin içinde olmalı");
+      }
+    }
+  }
+
+  const commands: Record<string, CommandRule> = {};
+  if (!isPlainObject(raw.commands)) {
+    errors.push("commands: komut adı -> kural nesnesi olmalı");
+  } else {
+    for (const [name, definition] of Object.entries(raw.commands)) {
+      const rule = compileRule(
+        name,
+        definition,
+        { timeout, maxOutputLength, limits, runAs, allowedEnv },
+        Array.isArray(privilegedCommands) && privilegedCommands.includes(name),
+        errors,
+      );
+      if (rule) {
+        commands[name] = rule;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new PolicyValidationError(source, errors);
+  }
+
+  // Revizyon belirtilmemişse içerik özeti kullanılır
+  const revision =
+    raw.revision ||
+    `sha256:${crypto
+      .createHash("sha256")
+      .update(content)
+      .digest("hex")
+      .substring(0, 12)}`;
+
+  return {
+    revision,
+    source,
+    loadedAt: new Date().toISOString(),
+    maxOutputLength,
+    timeout,
+    limits,
+    runAs,
+    privilegedCommands: Array.from(privilegedCommands),
+    allowedEnv,
+    allowedPaths,
+    defaultCwd,
+    commands,
+  };
+};
+
+/**
+ * Politika dosyası içeriğini uzantısına göre (.yaml/.yml veya JSON) ayrıştır
+ */
+const parsePolicyContent = (content: string, filePath: string): unknown => {
+  const yaml = /\.ya?ml$/i.test(filePath);
+
+  try {
+    return yaml ? Bun.YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new PolicyValidationError(filePath, [
+      `${yaml ? "YAML" : "JSON"} ayrıştırılamadı: ${
+        error instanceof Error ? error.message : error
+      }`,
+    ]);
+  }
+};
+
+/**
+ * Politika dosyasını oku ve aktif politika yap (dosya yoksa yerleşik politika)
+ */
+export const loadCommandPolicy = (
+  filePath: string = COMMAND_POLICY_PATH,
+): CommandPolicy => {
+  let policy: CommandPolicy;
+
+  if (fs.existsSync(filePath)) {
+    const content = fs.readFileSync(filePath, "utf8");
+    const raw = parsePolicyContent(content, filePath);
+
+    policy = parseCommandPolicy(raw, filePath, content);
+  } else {
+    logger.warn("Command policy file not found, using builtin policy", {
+      path: filePath,
+    });
+    policy = parseCommandPolicy(DEFAULT_POLICY_DEFINITION, "builtin");
+  }
+
+  const previousRevision = currentPolicy?.revision;
+  currentPolicy = policy;
+
+  logger.audit("Command policy loaded", {
+    source: policy.source,
+    revision: policy.revision,
+    previous_revision: previousRevision,
+    commands: Object.keys(policy.commands),
+    run_as: policy.runAs?.user,
+    privileged_commands: policy.privilegedCommands,
+  });
+
+  return policy;
+};
+
+/**
+ * Politikayı çalışma anında yeniden yükle - hata olursa eski politika korunur
+ */
+export const reloadCommandPolicy = (): {
+  success: boolean;
+  revision: string;
+  errors?: string[];
+} => {
+  try {
+    const policy = loadCommandPolicy();
+    return { success: true, revision: policy.revision };
+  } catch (error) {
+    const errors =
+      error instanceof PolicyValidationError
+        ? error.errors
+        : [error instanceof Error ? error.message : String(error)];
+
+    logger.error("Command policy reload failed, keeping previous policy", {
+      revision: getCommandPolicy().revision,
+      errors,
+    });
+
+    return { success: false, revision: getCommandPolicy().revision, errors };
+  }
+};
+
+/**
+ * Aktif politikayı döndür (henüz yüklenmediyse yükle)
+ */
+export const getCommandPolicy = (): CommandPolicy => {
+  if (!currentPolicy) {
+    return loadCommandPolicy();
+  }
+  return currentPolicy;
+};
@@ -0,0 +1,201 @@
+import os from "os";
+
+// Politika dosyasındaki runAs tanımı (isim veya sayısal id)
+export interface RunAsDefinition {
+  user: string | number;
+  group?: string | number; // Verilmezse kullanıcının birincil grubu
+  groups?: Array<string | number>; // Ek gruplar (verilmezse hiç ek grup yok)
+}
+
+// Çözülmüş kimlik
+export interface RunAsIdentity {
+  user: string;
+  uid: number;
+  gid: number;
+  groups: number[];
+  home: string;
+}
+
+const RUN_AS_KEYS = ["user", "group", "groups"];
+
+/**
+ * getent ile sistem veritabanından kayıt oku (passwd veya group)
+ */
+const getentLookup = (
+  database: "passwd" | "group",
+  key: string | number,
+): string[] | null => {
+  const result = Bun.spawnSync(["getent", database, String(key)]);
+  if (result.exitCode !== 0) {
+    return null;
+  }
+
+  const line = result.stdout.toString().split("\n")[0];
+  return line ? line.split(":") : null;
+};
+
+/**
+ * Grup adını veya id'sini gid'e çevir
+ */
+const resolveGroup = (group: string | number): number | null => {
+  const entry = getentLookup("group", group);
+  return entry ? Number(entry[2]) : null;
+};
+
+/**
+ * runAs tanımını doğrula ve kullanıcı/grupları sistemden çöz.
+ * Kullanıcı veya grup yoksa hata listesine eklenir (politika yüklenmez).
+ */
+export const resolveRunAs = (
+  value: unknown,
+  prefix: string,
+  errors: string[],
+): RunAsIdentity | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${prefix}: { user, group?, groups? } nesnesi olmalı`);
+    return null;
+  }
+
+  const definition = value as RunAsDefinition;
+  const errorCount = errors.length;
+
+  for (const key of Object.keys(definition)) {
+    if (!RUN_AS_KEYS.includes(key)) {
+      errors.push(`${prefix}.${key}: bilinmeyen alan`);
+    }
+  }
+
+  const isName = (name: unknown) =>
+    (typeof name === "string" && name.length > 0) ||
+    (typeof name === "number" && Number.isInteger(name) && name >= 0);
+
+  if (!isName(definition.user)) {
+    errors.push(`${prefix}.user: kullanıcı adı veya uid olmalı`);
+    return null;
+  }
+
+  const passwd = getentLookup("passwd", definition.user);
+  if (!passwd) {
+    errors.push(`${prefix}.user: kullanıcı bulunamadı (${definition.user})`);
+    return null;
+  }
+
+  let gid = Number(passwd[3]);
+  if (definition.group !== undefined) {
+    const resolved = isName(definition.group)
+      ? resolveGroup(definition.group)
+      : null;
+    if (resolved === null) {
+      errors.push(`${prefix}.group: grup bulunamadı (${definition.group})`);
+    } else {
+      gid = resolved;
+    }
+  }
+
+  const groups: number[] = [];
+  if (definition.groups !== undefined) {
+    if (!Array.isArray(definition.groups)) {
+      errors.push(`${prefix}.groups: grup listesi olmalı`);
+    } else {
+      for (const group of definition.groups) {
+        const resolved = isName(group) ? resolveGroup(group) : null;
+        if (resolved === null) {
+          errors.push(`${prefix}.groups: grup bulunamadı (${group})`);
+        } else {
+          groups.push(resolved);
+        }
+      }
+    }
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return {
+    user: passwd[0],
+    uid: Number(passwd[2]),
+    gid,
+    groups,
+    home: passwd[5] || "/",
+  };
+};
+
+/**
+ * Ajanın şu anki uid'i (root değilse kimlik değiştirilemez)
+ */
+export const getAgentUid = (): number => {
+  return process.getuid ? process.getuid() : -1;
+};
+
+/**
+ * Komutun hedef kimlikle çalıştırılıp çalıştırılamayacağını kontrol et
+ */
+export const checkRunAsAllowed = (
+  identity: RunAsIdentity | null,
+  privileged: boolean,
+): string | null => {
+  const agentUid = getAgentUid();
+
+  if (privileged && agentUid !== 0) {
+    return "Ayrıcalıklı komut için ajan root olarak çalışmalı";
+  }
+
+  if (identity && agentUid !== 0 && identity.uid !== agentUid) {
+    return `Ajan root değil, komut '${identity.user}' kullanıcısı olarak çalıştırılamaz`;
+  }
+
+  return null;
+};
+
+/**
+ * argv'yi setpriv ile kimlik düşürerek çalıştıracak şekilde sar.
+ * Kimlik zaten ajanın kendisiyse sarmalayıcı eklenmez.
+ */
+export const buildPrivilegeDropArgv = (
+  argv: string[],
+  identity: RunAsIdentity | null,
+  searchPath: string,
+): string[] => {
+  if (!identity || identity.uid === getAgentUid()) {
+    return argv;
+  }
+
+  const setpriv = Bun.which("setpriv", { PATH: searchPath });
+  if (!setpriv) {
+    throw new Error("Yetki düşürülemiyor: setpriv bulunamadı");
+  }
+
+  return [
+    setpriv,
+    `--reuid=${identity.uid}`,
+    `--regid=${identity.gid}`,
+    identity.groups.length > 0
+      ? `--groups=${identity.groups.join(",")}`
+      : "--clear-groups",
+    "--",
+    ...argv,
+  ];
+};
+
+/**
+ * Alt süreç için asgari ortam. Ajanın ortamı (CONNECTION_TOKEN dahil)
+ * aktarılmaz; hedef kullanıcının kimlik değişkenleri istekteki değerlerle
+ * ezilemez.
+ */
+export const buildChildEnv = (
+  identity: RunAsIdentity | null,
+  searchPath: string,
+  requested: Record<string, string> = {},
+): Record<string, string> => {
+  const user = identity?.user ?? os.userInfo().username;
+
+  return {
+    LANG: process.env.LANG || "C.UTF-8",
+    ...requested,
+    PATH: searchPath,
+    HOME: identity?.home ?? os.homedir(),
+    USER: user,
+    LOGNAME: user,
+  };
+};
@@ -0,0 +1,457 @@
+import type { CommandInput } from "./command";
+
+// İstemcinin desteklediği protokol sürümleri
+// v1: command_result { result, exit_code (HTTP benzeri) }
+// v2: command_result { status, stdout, stderr, exit_code, signal, zamanlama }
+// v3: şemaya uymayan mesajlara `error` yanıtı gönderilir (doğrulama her
+//     sürümde yapılır; v1/v2'de geçersiz mesaj loglanıp yok sayılır)
+// v4: giden mesajlar sunucu tarafından `ack` ile onaylanır, onaylanmayanlar
+//     yeniden bağlanınca aynı message_id ile tekrar gönderilir
+export const PROTOCOL_VERSION = 4;
+export const MIN_PROTOCOL_VERSION = 1;
+export const ERROR_REPLY_PROTOCOL_VERSION = 3;
+export const ACK_PROTOCOL_VERSION = 4;
+
+// Onay beklemeyen mesajlar: bağlantıya özgü (auth, ping, durum, gelen mesaja
+// hata yanıtı) veya akış parçaları (sıra numarasıyla eksikleri zaten tespit
+// edilebilir). Bağlantıya özgü mesajlar kimlik doğrulanmadan da gönderilir.
+const EPHEMERAL_MESSAGE_TYPES = [
+  "auth",
+  "error",
+  "ping",
+  "pong",
+  "status",
+  "command_output",
+  "command_progress",
+  "session_output",
+];
+
+/**
+ * Mesaj onaylanana kadar outbox'ta tutulmalı mı?
+ */
+export const isReliableMessageType = (type: string): boolean =>
+  !EPHEMERAL_MESSAGE_TYPES.includes(type);
+
+// Sunucudan gelen mesajların ortak zarfı
+interface Message<T extends string, D = {}> {
+  type: T;
+  message_id?: string; // Verilirse yanıtlar in_reply_to alanında taşır
+  seq?: number; // Oturumdaki sıra numarası (devam ettirmede tekrarları ayıklar)
+  data: D;
+}
+
+export type WelcomeMessage = Message<
+  "welcome",
+  {
+    roomId?: string;
+    clientId?: string;
+    protocol_version?: number; // Sunucunun desteklediği en yüksek sürüm
+    protocol_versions?: number[]; // Veya desteklediği tüm sürümler
+  }
+>;
+
+export type AuthSuccessMessage = Message<
+  "auth_success",
+  {
+    protocol_version?: number; // Sunucunun kesinleştirdiği sürüm
+    clientId?: string; // Devam ettirilen oturumun client ID'si
+    resume_token?: string; // Yeniden bağlanınca oturumu sürdürmek için
+    resumed?: boolean; // Önceki oturum geri yüklendi mi
+  }
+>;
+
+export type AuthErrorMessage = Message<"auth_error", { message?: string }>;
+
+export type CommandMessage = Message<
+  "command",
+  {
+    command_id: string;
+    command: CommandInput;
+    priority?: number | string;
+    idempotency_key?: string;
+    on_restart?: string;
+    retry?: Record<string, unknown>;
+    concurrency_key?: string;
+    concurrency_limit?: number;
+    origin?: string;
+    user_id?: string;
+    client_id?: string;
+    room_id?: string;
+  }
+>;
+
+export type CommandCancelMessage = Message<
+  "command_cancel",
+  { command_id: string; grace_period_ms?: number }
+>;
+
+// İş ve zamanlama tanımları kendi ayrıştırıcılarında doğrulanır
+export type JobMessage = Message<"job", Record<string, any>>;
+export type ScheduleCreateMessage = Message<
+  "schedule_create",
+  Record<string, any>
+>;
+
+export type SessionOpenMessage = Message<
+  "session_open",
+  { session_id: string; command?: string; cols?: number; rows?: number }
+>;
+
+export type SessionMessage =
+  | SessionOpenMessage
+  | Message<"session_input", { session_id: string; data: string }>
+  | Message<"session_resize", { session_id: string; cols: number; rows: number }>
+  | Message<"session_close", { session_id: string }>;
+
+export type QueueDrainMessage = Message<"queue_drain", { timeout_ms?: number }>;
+
+// Sunucunun aldığı mesajları onaylaması (tek ID veya liste)
+export type AckMessage = Message<
+  "ack",
+  { message_id?: string; message_ids?: string[] }
+>;
+
+// Sunucunun gönderdiği hata bildirimi
+export type ServerErrorMessage = Message<
+  "error",
+  { code?: string; message?: string }
+>;
+
+// Sunucudan gelebilecek tüm mesajlar
+export type InboundMessage =
+  | WelcomeMessage
+  | Message<"ping">
+  | Message<"pong">
+  | AuthSuccessMessage
+  | AuthErrorMessage
+  | CommandMessage
+  | CommandCancelMessage
+  | JobMessage
+  | Message<"job_cancel", { job_id: string }>
+  | Message<"dead_letter_list">
+  | Message<"dead_letter_get" | "dead_letter_replay", { id: string }>
+  | Message<"dead_letter_purge", { id?: string }>
+  | Message<"queue_pause" | "queue_resume" | "queue_status">
+  | QueueDrainMessage
+  | ScheduleCreateMessage
+  | Message<"schedule_delete", { schedule_id: string }>
+  | Message<"schedule_list">
+  | SessionMessage
+  | AckMessage
+  | ServerErrorMessage;
+
+export type InboundMessageType = InboundMessage["type"];
+
+// Geçersiz mesaj hata kodları
+// invalid_json: JSON olarak çözülemedi, invalid_frame: { type, data } değil,
+// unknown_type: desteklenmeyen mesaj tipi, invalid_data: alan doğrulaması,
+// unsupported_version: sunucuyla ortak protokol sürümü yok
+export type ProtocolErrorCode =
+  | "invalid_json"
+  | "invalid_frame"
+  | "unknown_type"
+  | "invalid_data"
+  | "unsupported_version";
+
+// Geçersiz mesaja gönderilen yapılandırılmış yanıt
+export interface ProtocolErrorMessage {
+  type: "error";
+  data: {
+    code: ProtocolErrorCode;
+    message: string;
+    errors: string[];
+    message_type?: string;
+    ref?: Record<string, string>; // Mesajdaki ID'ler (command_id, job_id ...)
+  };
+}
+
+/**
+ * Gelen mesaj protokole uymuyor
+ */
+export class ProtocolValidationError extends Error {
+  public readonly code: ProtocolErrorCode;
+  public readonly errors: string[];
+  public readonly messageType?: string;
+  public readonly ref?: Record<string, string>;
+
+  constructor(
+    code: ProtocolErrorCode,
+    errors: string[],
+    messageType?: string,
+    ref?: Record<string, string>,
+  ) {
+    super(
+      `Geçersiz mesaj (${messageType || code}):\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
+    this.name = "ProtocolValidationError";
+    this.code = code;
+    this.errors = errors;
+    this.messageType = messageType;
+    this.ref = ref;
+  }
+}
+
+type FieldType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "command" // Komut metni veya { program, args }
+  | "priority"; // 1-4 veya "low" | "normal" | "high" | "critical"
+
+interface FieldRule {
+  type: FieldType;
+  required: boolean;
+}
+
+const required = (type: FieldType): FieldRule => ({ type, required: true });
+const optional = (type: FieldType): FieldRule => ({ type, required: false });
+
+// Mesaj tipi -> data alan kuralları. Tanımlanmayan alanlar yok sayılır,
+// böylece sunucu yeni alanları eski istemcileri bozmadan ekleyebilir.
+const MESSAGE_SCHEMAS: Record<InboundMessageType, Record<string, FieldRule>> = {
+  welcome: {
+    roomId: optional("string"),
+    clientId: optional("string"),
+    protocol_version: optional("integer"),
+    protocol_versions: optional("array"),
+  },
+  ping: {},
+  pong: {},
+  auth_success: {
+    protocol_version: optional("integer"),
+    clientId: optional("string"),
+    resume_token: optional("string"),
+    resumed: optional("boolean"),
+  },
+  auth_error: { message: optional("string") },
+  command: {
+    command_id: required("string"),
+    command: required("command"),
+    priority: optional("priority"),
+    idempotency_key: optional("string"),
+    on_restart: optional("string"),
+    retry: optional("object"),
+    concurrency_key: optional("string"),
+    concurrency_limit: optional("integer"),
+  },
+  command_cancel: {
+    command_id: required("string"),
+    grace_period_ms: optional("number"),
+  },
+  job: {},
+  job_cancel: { job_id: required("string") },
+  dead_letter_list: {},
+  dead_letter_get: { id: required("string") },
+  dead_letter_replay: { id: required("string") },
+  dead_letter_purge: { id: optional("string") },
+  queue_pause: {},
+  queue_resume: {},
+  queue_status: {},
+  queue_drain: { timeout_ms: optional("number") },
+  schedule_create: {},
+  schedule_delete: { schedule_id: required("string") },
+  schedule_list: {},
+  session_open: {
+    session_id: required("string"),
+    command: optional("string"),
+    cols: optional("integer"),
+    rows: optional("integer"),
+  },
+  session_input: { session_id: required("string"), data: required("string") },
+  session_resize: {
+    session_id: required("string"),
+    cols: required("integer"),
+    rows: required("integer"),
+  },
+  session_close: { session_id: required("string") },
+  ack: { message_id: optional("string"), message_ids: optional("array") },
+  error: { code: optional("string"), message: optional("string") },
+};
+
+// Hata yanıtında sunucunun isteği eşleştirebilmesi için döndürülen alanlar
+const REF_FIELDS = ["command_id", "job_id", "schedule_id", "session_id", "id"];
+
+const PRIORITY_NAMES = ["low", "normal", "high", "critical"];
+
+const checkField = (value: unknown, type: FieldType): string | null => {
+  switch (type) {
+    case "string":
+      return typeof value === "string" ? null : "string olmalı";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        ? null
+        : "sayı olmalı";
+    case "integer":
+      return Number.isInteger(value) ? null : "tam sayı olmalı";
+    case "boolean":
+      return typeof value === "boolean" ? null : "true veya false olmalı";
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value)
+        ? null
+        : "nesne olmalı";
+    case "array":
+      return Array.isArray(value) ? null : "dizi olmalı";
+    case "command":
+      if (typeof value === "string" && value.length > 0) return null;
+      return typeof value === "object" &&
+        value !== null &&
+        typeof (value as Record<string, unknown>).program === "string"
+        ? null
+        : "komut metni veya { program, args } olmalı";
+    case "priority":
+      return (typeof value === "number" && value >= 1 && value <= 4) ||
+        (typeof value === "string" &&
+          PRIORITY_NAMES.includes(value.toLowerCase()))
+        ? null
+        : "1-4 veya low, normal, high, critical olmalı";
+  }
+};
+
+/**
+ * Mesaj zarfını ve data alanlarını doğrula
+ */
+export const validateInboundMessage = (raw: unknown): InboundMessage => {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ProtocolValidationError("invalid_frame", [
+      "mesaj { type, data } nesnesi olmalı",
+    ]);
+  }
+
+  const frame = raw as Record<string, unknown>;
+  if (typeof frame.type !== "string" || frame.type.length === 0) {
+    throw new ProtocolValidationError("invalid_frame", ["type: string olmalı"]);
+  }
+
+  const type = frame.type;
+  const data = frame.data ?? {};
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ProtocolValidationError(
+      "invalid_frame",
+      ["data: nesne olmalı"],
+      type,
+    );
+  }
+
+  const fields = data as Record<string, unknown>;
+  const ref: Record<string, string> = {};
+  for (const field of REF_FIELDS) {
+    if (typeof fields[field] === "string") {
+      ref[field] = fields[field] as string;
+    }
+  }
+
+  const schema = MESSAGE_SCHEMAS[type as InboundMessageType];
+  if (!schema) {
+    throw new ProtocolValidationError(
+      "unknown_type",
+      [`desteklenmeyen mesaj tipi: ${type}`],
+      type,
+      ref,
+    );
+  }
+
+  // Eski realtime kanalı komut ID'sini requestId alanında gönderiyordu
+  if (
+    type === "command" &&
+    fields.command_id === undefined &&
+    typeof fields.requestId === "string"
+  ) {
+    fields.command_id = fields.requestId;
+    ref.command_id = fields.requestId;
+  }
+
+  const errors: string[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = fields[field];
+    if (value === undefined || value === null) {
+      if (rule.required) errors.push(`${field}: zorunlu alan`);
+      continue;
+    }
+
+    const error = checkField(value, rule.type);
+    if (error) errors.push(`${field}: ${error}`);
+  }
+
+  if (errors.length > 0) {
+    throw new ProtocolValidationError("invalid_data", errors, type, ref);
+  }
+
+  return {
+    type,
+    message_id:
+      typeof frame.message_id === "string" ? frame.message_id : undefined,
+    seq:
+      Number.isInteger(frame.seq) && (frame.seq as number) >= 0
+        ? frame.seq
+        : undefined,
+    data: fields,
+  } as InboundMessage;
+};
+
+/**
+ * Ham WebSocket çerçevesini çözüp doğrula
+ */
+export const parseInboundMessage = (raw: string): InboundMessage => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ProtocolValidationError("invalid_json", [
+      error instanceof Error ? error.message : "Unknown error",
+    ]);
+  }
+
+  return validateInboundMessage(parsed);
+};
+
+/**
+ * Doğrulama hatasından sunucuya gönderilecek error yanıtını oluştur
+ */
+export const toProtocolErrorMessage = (
+  error: ProtocolValidationError,
+): ProtocolErrorMessage => ({
+  type: "error",
+  data: {
+    code: error.code,
+    message: error.message,
+    errors: error.errors,
+    message_type: error.messageType,
+    ref: error.ref && Object.keys(error.ref).length > 0 ? error.ref : undefined,
+  },
+});
+
+/**
+ * Desteklenen sürümler listesi (auth mesajında sunucuya bildirilir)
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = Array.from(
+  { length: PROTOCOL_VERSION - MIN_PROTOCOL_VERSION + 1 },
+  (_, index) => MIN_PROTOCOL_VERSION + index,
+);
+
+/**
+ * welcome mesajındaki sürüm bilgisinden ortak en yüksek sürümü seç.
+ * Sunucu sürüm bildirmiyorsa eski protokol (v1), ortak sürüm yoksa null döner.
+ */
+export const negotiateProtocolVersion = (
+  data: WelcomeMessage["data"] | undefined,
+): number | null => {
+  if (Array.isArray(data?.protocol_versions)) {
+    const common = data.protocol_versions.filter((version) =>
+      SUPPORTED_PROTOCOL_VERSIONS.includes(version),
+    );
+    return common.length > 0 ? Math.max(...common) : null;
+  }
+
+  if (data?.protocol_version === undefined) {
+    return MIN_PROTOCOL_VERSION;
+  }
+
+  return data.protocol_version >= MIN_PROTOCOL_VERSION
+    ? Math.min(PROTOCOL_VERSION, data.protocol_version)
+    : null;
+};
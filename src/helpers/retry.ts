@@ -0,0 +1,149 @@
+import { BackoffOptions, JitterMode, JITTER_MODES } from "./backoff";
+import type { CommandResult, CommandStatus } from "./command";
+
+// Komut tekrar politikası
+export interface RetryPolicy extends BackoffOptions {
+  maxAttempts: number; // Toplam deneme sayısı (1: tekrar yok)
+  retryOnStatuses: CommandStatus[]; // Tekrar denenecek durumlar
+  retryOnExitCodes: number[]; // "failed" durumunda tekrar denenecek çıkış kodları
+}
+
+// Tek bir denemenin özeti (sonuçtaki deneme geçmişi)
+export interface CommandAttempt {
+  attempt: number;
+  status: CommandStatus;
+  exit_code: number | null;
+  signal: string | null;
+  error?: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  retry_delay_ms?: number; // Sonraki denemeden önce beklenen süre
+}
+
+// Sadece geçici olabilecek durumlar tekrar denenebilir; engellenen, iptal
+// edilen veya limit aşan komutu tekrar çalıştırmak aynı sonucu verir
+export const RETRYABLE_STATUSES: CommandStatus[] = [
+  "failed",
+  "timeout",
+  "internal_error",
+];
+
+const MAX_RETRY_ATTEMPTS = 10;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: "full",
+  retryOnStatuses: ["timeout", "internal_error"],
+  retryOnExitCodes: [],
+};
+
+const clampNumber = (
+  value: unknown,
+  fallback: number,
+  min: number,
+  max: number,
+): number => {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, value))
+    : fallback;
+};
+
+/**
+ * Mesajdaki retry alanını çevir (geçersiz alanlar varsayılana düşer).
+ * Alan yoksa komut tekrar denenmez.
+ */
+export const parseRetryPolicy = (value: unknown): RetryPolicy => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  const raw = value as Record<string, any>;
+  const retryOn =
+    typeof raw.retry_on === "object" && raw.retry_on !== null
+      ? raw.retry_on
+      : {};
+
+  const statuses = Array.isArray(retryOn.statuses)
+    ? retryOn.statuses.filter((status: CommandStatus) =>
+        RETRYABLE_STATUSES.includes(status),
+      )
+    : DEFAULT_RETRY_POLICY.retryOnStatuses;
+
+  const exitCodes = Array.isArray(retryOn.exit_codes)
+    ? retryOn.exit_codes.filter((code: unknown) => Number.isInteger(code))
+    : DEFAULT_RETRY_POLICY.retryOnExitCodes;
+
+  const baseDelayMs = clampNumber(
+    raw.base_delay_ms,
+    DEFAULT_RETRY_POLICY.baseDelayMs,
+    0,
+    MAX_RETRY_DELAY_MS,
+  );
+
+  return {
+    maxAttempts: Math.floor(
+      clampNumber(raw.max_attempts, 1, 1, MAX_RETRY_ATTEMPTS),
+    ),
+    baseDelayMs,
+    maxDelayMs: clampNumber(
+      raw.max_delay_ms,
+      Math.max(baseDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs),
+      baseDelayMs,
+      MAX_RETRY_DELAY_MS,
+    ),
+    multiplier: clampNumber(
+      raw.multiplier,
+      DEFAULT_RETRY_POLICY.multiplier,
+      1,
+      10,
+    ),
+    jitter: JITTER_MODES.includes(raw.jitter)
+      ? (raw.jitter as JitterMode)
+      : DEFAULT_RETRY_POLICY.jitter,
+    retryOnStatuses: statuses,
+    retryOnExitCodes: exitCodes,
+  };
+};
+
+/**
+ * Sonuç politikaya göre tekrar denenebilir mi?
+ * "failed" durumu listede yoksa sadece belirtilen çıkış kodlarında tekrar denenir.
+ */
+export const isRetryableResult = (
+  policy: RetryPolicy,
+  result: Pick<CommandResult, "status" | "exit_code">,
+): boolean => {
+  if (policy.retryOnStatuses.includes(result.status)) {
+    return true;
+  }
+
+  return (
+    result.status === "failed" &&
+    result.exit_code !== null &&
+    policy.retryOnExitCodes.includes(result.exit_code)
+  );
+};
+
+/**
+ * Sonuçtan deneme geçmişi kaydı oluştur
+ */
+export const toCommandAttempt = (
+  attempt: number,
+  result: CommandResult,
+  retryDelayMs?: number,
+): CommandAttempt => ({
+  attempt,
+  status: result.status,
+  exit_code: result.exit_code,
+  signal: result.signal,
+  error: result.error,
+  started_at: result.started_at,
+  finished_at: result.finished_at,
+  duration_ms: result.duration_ms,
+  retry_delay_ms: retryDelayMs,
+});
@@ -0,0 +1,428 @@
+import fs from "fs";
+import type { Subprocess } from "bun";
+import { logger } from "../services/logger";
+import { validateCommand, readOutputStream } from "./command";
+import { formatShellWords } from "./shellWords";
+import { buildLimitedArgv } from "./limits";
+import { buildChildEnv, buildPrivilegeDropArgv } from "./privileges";
+
+// Oturum yapılandırması
+interface SessionConfig {
+  maxSessions: number;
+  idleTimeout: number;
+  closeGracePeriod: number;
+  defaultCommand: string;
+  defaultCols: number;
+  defaultRows: number;
+}
+
+const SESSION_CONFIG: SessionConfig = {
+  maxSessions: 5, // Aynı anda açık olabilecek oturum sayısı
+  idleTimeout: 15 * 60_000, // 15 dakika hareketsizlikte kapat
+  closeGracePeriod: 3_000, // Kapatma sinyali sonrası SIGKILL için bekleme
+  defaultCommand: "bash",
+  defaultCols: 80,
+  defaultRows: 24,
+};
+
+// Oturumdaki kabuğun kullandığı PATH
+const SESSION_PATH = "/usr/local/bin:/usr/bin:/bin";
+
+// Oturum olaylarını dışarı ileten callback'ler
+export interface SessionHandlers {
+  onOutput: (data: string, seq: number) => void;
+  onExit: (exitCode: number | null, reason: string) => void;
+}
+
+// Oturum açma seçenekleri
+export interface SessionOpenOptions {
+  command?: string;
+  cols?: number;
+  rows?: number;
+}
+
+// Açık PTY oturumu
+interface ShellSession {
+  id: string;
+  command: string;
+  proc: Subprocess<"pipe", "pipe", "pipe">;
+  cols: number;
+  rows: number;
+  openedAt: number;
+  seq: number;
+  closeReason: string | null;
+  idleTimer: NodeJS.Timeout | null;
+  killTimer: NodeJS.Timeout | null;
+  handlers: SessionHandlers;
+}
+
+// session_id -> oturum
+const sessions: Map<string, ShellSession> = new Map();
+
+/**
+ * Terminal boyutunu makul sınırlar içinde tut
+ */
+const clampSize = (value: number | undefined, fallback: number): number => {
+  if (!value || !Number.isFinite(value)) return fallback;
+  return Math.max(1, Math.min(1000, Math.floor(value)));
+};
+
+/**
+ * Hareketsizlik zamanlayıcısını yenile
+ */
+const touchSession = (session: ShellSession): void => {
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    closeSession(session.id, "idle_timeout");
+  }, SESSION_CONFIG.idleTimeout);
+};
+
+/**
+ * script sürecinin PTY'ye bağlı alt sürecini bul (/proc üzerinden)
+ */
+const findSessionChildPid = (session: ShellSession): number | null => {
+  try {
+    const pid = session.proc.pid;
+    const children = fs
+      .readFileSync(`/proc/${pid}/task/${pid}/children`, "utf8")
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+
+    return children.length > 0 ? Number(children[0]) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Oturumun terminal aygıtını bul
+ */
+const findSessionTty = (session: ShellSession): string | null => {
+  const childPid = findSessionChildPid(session);
+  if (!childPid) return null;
+
+  try {
+    return fs.readlinkSync(`/proc/${childPid}/fd/0`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Yeni PTY oturumu aç - komut executeCommand ile aynı whitelist kontrolünden geçer
+ */
+export const openSession = (
+  session_id: string,
+  options: SessionOpenOptions,
+  handlers: SessionHandlers,
+): { success: boolean; error?: string } => {
+  const command = options.command || SESSION_CONFIG.defaultCommand;
+
+  if (sessions.has(session_id)) {
+    return { success: false, error: `Oturum zaten açık: ${session_id}` };
+  }
+
+  if (sessions.size >= SESSION_CONFIG.maxSessions) {
+    return {
+      success: false,
+      error: `Maksimum oturum sayısına ulaşıldı (${SESSION_CONFIG.maxSessions})`,
+    };
+  }
+
+  const validation = validateCommand(command);
+  if (!validation.isValid) {
+    logger.securityViolation("Session command validation failed", command, {
+      session_id,
+      validation_error: validation.error,
+      resolved_path: validation.resolvedPath,
+      policy_revision: validation.policyRevision,
+      blocked_at: new Date().toISOString(),
+    });
+
+    logger.commandExecution(session_id, command, "blocked", {
+      session: true,
+      reason: validation.error,
+      policy_revision: validation.policyRevision,
+    });
+
+    return { success: false, error: `Güvenlik hatası: ${validation.error}` };
+  }
+
+  const rule = validation.rule!;
+  const cols = clampSize(options.cols, SESSION_CONFIG.defaultCols);
+  const rows = clampSize(options.rows, SESSION_CONFIG.defaultRows);
+
+  try {
+    // util-linux script ile pseudo-terminal aç, başlangıç boyutunu PTY içinde ayarla.
+    // script komutu kabukla çalıştırdığından doğrulanmış argv tırnaklanarak verilir,
+    // kaynak limitleri komutlarda olduğu gibi prlimit ile uygulanır.
+    const proc = Bun.spawn(
+      [
+        "script",
+        "-q",
+        "-f",
+        "-e",
+        "-c",
+        `stty rows ${rows} cols ${cols} 2>/dev/null; exec ${formatShellWords(
+          buildLimitedArgv(
+            buildPrivilegeDropArgv(validation.argv!, rule.runAs, SESSION_PATH),
+            rule.limits,
+            SESSION_PATH,
+          ),
+        )}`,
+        "/dev/null",
+      ],
+      {
+        cwd: validation.cwd,
+        env: {
+          ...buildChildEnv(rule.runAs, SESSION_PATH),
+          SHELL: "/bin/bash",
+          TERM: "xterm-256color",
+        },
+        stdin: "pipe",
+        stdout: "pipe",
+        stderr: "pipe",
+      },
+    );
+
+    const session: ShellSession = {
+      id: session_id,
+      command,
+      proc,
+      cols,
+      rows,
+      openedAt: Date.now(),
+      seq: 0,
+      closeReason: null,
+      idleTimer: null,
+      killTimer: null,
+      handlers,
+    };
+
+    sessions.set(session_id, session);
+    touchSession(session);
+
+    if (rule.privileged) {
+      logger.audit("Privileged session opened", {
+        session_id,
+        command,
+        policy_revision: validation.policyRevision,
+      });
+    }
+
+    logger.commandExecution(session_id, command, "start", {
+      session: true,
+      pid: proc.pid,
+      run_as: rule.privileged ? "root" : rule.runAs?.user,
+      cols,
+      rows,
+      policy_revision: validation.policyRevision,
+    });
+
+    // PTY çıktısı (stdout ve stderr aynı terminalden gelir) tek akış olarak iletilir
+    const emit = (data: string) => {
+      touchSession(session);
+      try {
+        handlers.onOutput(data, session.seq++);
+      } catch (error) {
+        logger.warn("Session output callback error", {
+          session_id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    };
+
+    Promise.all([
+      readOutputStream(proc.stdout, emit),
+      readOutputStream(proc.stderr, emit),
+      proc.exited,
+    ])
+      .then(([, , exitCode]) => finalizeSession(session, exitCode))
+      .catch((error) => {
+        logger.error("Session stream error", {
+          session_id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        finalizeSession(session, null);
+      });
+
+    return { success: true };
+  } catch (error: any) {
+    logger.error("Session open failed", {
+      session_id,
+      command,
+      error: error?.message || "Unknown error",
+    });
+    return { success: false, error: error?.message || "Oturum açılamadı" };
+  }
+};
+
+/**
+ * Oturum bittiğinde kaynakları temizle ve audit logu yaz
+ */
+const finalizeSession = (
+  session: ShellSession,
+  exitCode: number | null,
+): void => {
+  if (sessions.get(session.id) !== session) return;
+  sessions.delete(session.id);
+
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  if (session.killTimer) clearTimeout(session.killTimer);
+
+  const reason = session.closeReason || "exited";
+  const details = {
+    session: true,
+    exit_code: exitCode,
+    reason,
+    duration_ms: Date.now() - session.openedAt,
+    output_frames: session.seq,
+  };
+
+  if (exitCode === 0 || session.closeReason) {
+    logger.commandExecution(session.id, session.command, "success", details);
+  } else {
+    logger.commandExecution(session.id, session.command, "failed", details);
+  }
+
+  try {
+    session.handlers.onExit(exitCode, reason);
+  } catch (error) {
+    logger.warn("Session exit callback error", {
+      session_id: session.id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+/**
+ * Oturuma klavye girdisi yaz
+ */
+export const writeSession = (session_id: string, data: string): boolean => {
+  const session = sessions.get(session_id);
+  if (!session || session.closeReason) return false;
+
+  try {
+    session.proc.stdin.write(data);
+    session.proc.stdin.flush();
+    touchSession(session);
+
+    logger.debug("Session input", {
+      session_id,
+      bytes: Buffer.byteLength(data),
+    });
+
+    return true;
+  } catch (error) {
+    logger.warn("Session input write failed", {
+      session_id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+};
+
+/**
+ * Terminal boyutunu değiştir - çekirdek ön plandaki sürece SIGWINCH gönderir
+ */
+export const resizeSession = (
+  session_id: string,
+  cols: number,
+  rows: number,
+): boolean => {
+  const session = sessions.get(session_id);
+  if (!session || session.closeReason) return false;
+
+  const tty = findSessionTty(session);
+  if (!tty) {
+    logger.warn("Session tty not found for resize", { session_id });
+    return false;
+  }
+
+  session.cols = clampSize(cols, session.cols);
+  session.rows = clampSize(rows, session.rows);
+
+  const result = Bun.spawnSync([
+    "stty",
+    "-F",
+    tty,
+    "rows",
+    String(session.rows),
+    "cols",
+    String(session.cols),
+  ]);
+
+  touchSession(session);
+  return result.exitCode === 0;
+};
+
+/**
+ * Oturumu kapat - terminal kapanmış gibi kabuğa SIGHUP, süre dolarsa SIGKILL
+ */
+export const closeSession = (
+  session_id: string,
+  reason: string = "closed",
+): boolean => {
+  const session = sessions.get(session_id);
+  if (!session) return false;
+  if (session.closeReason) return true;
+
+  session.closeReason = reason;
+
+  try {
+    session.proc.stdin.end();
+  } catch {
+    // stdin zaten kapalı olabilir
+  }
+
+  // Etkileşimli kabuk SIGTERM'i yok sayar, script de alt süreci bekler
+  const childPid = findSessionChildPid(session);
+  if (childPid) {
+    try {
+      process.kill(childPid, "SIGHUP");
+    } catch {
+      // Süreç zaten çıkmış olabilir
+    }
+  }
+  session.proc.kill("SIGTERM");
+
+  session.killTimer = setTimeout(() => {
+    if (session.proc.exitCode === null && session.proc.signalCode === null) {
+      session.proc.kill("SIGKILL");
+    }
+  }, SESSION_CONFIG.closeGracePeriod);
+
+  logger.info("Session close requested", { session_id, reason });
+  return true;
+};
+
+/**
+ * Tüm oturumları kapat (uygulama kapanırken)
+ */
+export const closeAllSessions = (reason: string = "shutdown"): number => {
+  const ids = Array.from(sessions.keys());
+  for (const id of ids) {
+    closeSession(id, reason);
+  }
+  return ids.length;
+};
+
+/**
+ * Açık oturumların özeti
+ */
+export const listSessions = (): Array<{
+  session_id: string;
+  command: string;
+  cols: number;
+  rows: number;
+  opened_at: string;
+}> => {
+  return Array.from(sessions.values()).map((session) => ({
+    session_id: session.id,
+    command: session.command,
+    cols: session.cols,
+    rows: session.rows,
+    opened_at: new Date(session.openedAt).toISOString(),
+  }));
+};
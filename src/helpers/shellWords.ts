@@ -0,0 +1,128 @@
+// Tırnak dışında kabuk anlamı taşıyan, desteklenmeyen karakterler
+const UNSUPPORTED_OPERATORS = new Set([";", "&", "|", "<", ">", "(", ")", "$", "`"]);
+
+// Çift tırnak içinde ters bölü ile kaçırılabilen karakterler (POSIX)
+const DOUBLE_QUOTE_ESCAPABLE = new Set(['"', "\\", "$", "`", "\n"]);
+
+/**
+ * Komut satırını POSIX kabuk kurallarına göre kelimelere ayır.
+ * Tırnaklar ve ters bölü kaçışları uygulanır; genişletme (değişken,
+ * komut yerine koyma, yönlendirme, boru) desteklenmez ve hata fırlatılır.
+ */
+export const parseShellWords = (input: string): string[] => {
+  const words: string[] = [];
+  let current = "";
+  let inWord = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    // Kelime ayırıcı boşluk
+    if (char === " " || char === "\t" || char === "\n") {
+      if (inWord) {
+        words.push(current);
+        current = "";
+        inWord = false;
+      }
+      i++;
+      continue;
+    }
+
+    // Tek tırnak: kapanana kadar her şey olduğu gibi
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error("Kapanmamış tek tırnak");
+      }
+      current += input.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    // Çift tırnak: sadece belirli kaçışlar, genişletme yasak
+    if (char === '"') {
+      i++;
+      let closed = false;
+
+      while (i < input.length) {
+        const inner = input[i];
+
+        if (inner === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+
+        if (inner === "\\" && i + 1 < input.length) {
+          const next = input[i + 1];
+          current += DOUBLE_QUOTE_ESCAPABLE.has(next) ? next : inner + next;
+          i += 2;
+          continue;
+        }
+
+        if (inner === "$" || inner === "`") {
+          throw new Error(
+            `Çift tırnak içinde genişletme desteklenmiyor: ${inner}`,
+          );
+        }
+
+        current += inner;
+        i++;
+      }
+
+      if (!closed) {
+        throw new Error("Kapanmamış çift tırnak");
+      }
+
+      inWord = true;
+      continue;
+    }
+
+    // Tırnak dışı ters bölü: sonraki karakteri olduğu gibi al
+    if (char === "\\") {
+      if (i + 1 >= input.length) {
+        throw new Error("Komut sonunda tamamlanmamış ters bölü");
+      }
+      // Satır devamı (\ + yeni satır) kelimeye eklenmez
+      if (input[i + 1] !== "\n") {
+        current += input[i + 1];
+        inWord = true;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (UNSUPPORTED_OPERATORS.has(char)) {
+      throw new Error(`Desteklenmeyen kabuk operatörü: ${char}`);
+    }
+
+    current += char;
+    inWord = true;
+    i++;
+  }
+
+  if (inWord) {
+    words.push(current);
+  }
+
+  return words;
+};
+
+/**
+ * Tek bir kelimeyi kabukta aynen yorumlanacak şekilde tırnakla
+ */
+export const quoteShellWord = (word: string): string => {
+  if (word.length > 0 && /^[A-Za-z0-9_\-+=.,/:@%]+$/.test(word)) {
+    return word;
+  }
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+};
+
+/**
+ * argv dizisini okunabilir (ve kabukta güvenle kullanılabilir) satıra çevir
+ */
+export const formatShellWords = (argv: string[]): string => {
+  return argv.map(quoteShellWord).join(" ");
+};
@@ -1,14 +1,44 @@
 import { Elysia } from "elysia";
 import { cors } from "@elysiajs/cors";
-import { checkRequiredVars, VPS_ID, CONNECTION_TOKEN } from "./config";
+import {
+  checkRequiredVars,
+  VPS_ID,
+  CONNECTION_TOKEN,
+  SHUTDOWN_DRAIN_TIMEOUT_MS,
+  API_HOST,
+  API_PORT,
+  API_ADMIN_TOKEN,
+} from "./config";
 import { WebSocketClient } from "./services/ws";
+import { commandQueue } from "./services/commandQueue";
+import { commandJournal } from "./services/commandJournal";
+import { deadLetterStore } from "./services/deadLetter";
+import { outbox } from "./services/outbox";
+import { commandScheduler } from "./services/scheduler";
+import {
+  loadCommandPolicy,
+  reloadCommandPolicy,
+  getCommandPolicy,
+  PolicyValidationError,
+} from "./helpers/policy";
+import { isAuthorizedRequest } from "./helpers/apiAuth";
 
 // WebSocket client
 let wsClient: WebSocketClient;
 
-// Sağlık durumu API'si
+// Kuyruk durumu özeti
+const getQueueState = () => ({
+  state: commandQueue.getState(),
+  busy: commandQueue.isActive(),
+  queued: commandQueue.getQueueSize(),
+  running: commandQueue.getProcessingCount(),
+});
+
+// Sağlık durumu API'si. Tarayıcıdan sadece okuma isteklerine izin verilir;
+// sağlık dışındaki uçlar (politika, kuyruk, zamanlama, dead-letter) admin
+// token'ı ister.
 const api = new Elysia()
-  .use(cors())
+  .use(cors({ methods: ["GET"], allowedHeaders: ["Content-Type"] }))
   .get("/", () => ({
     status: "OK",
     uptime: process.uptime(),
@@ -19,10 +49,86 @@ const api = new Elysia()
     status: "healthy",
     uptime: process.uptime(),
     connected: wsClient?.isConnected || false,
+    connection_state: wsClient?.getConnectionState() || "idle",
+    // Gönderilmeyi veya sunucu onayını bekleyen mesajlar
+    outbox: outbox.getStats(),
   }))
-  .listen(4000);
+  .guard(
+    {
+      beforeHandle({ headers, set }) {
+        if (!isAuthorizedRequest(headers.authorization, API_ADMIN_TOKEN)) {
+          set.status = 401;
+          return { error: "Yetkisiz istek" };
+        }
+      },
+    },
+    (app) =>
+      app
+        .get("/policy", () => {
+          const policy = getCommandPolicy();
+          return {
+            revision: policy.revision,
+            source: policy.source,
+            loaded_at: policy.loadedAt,
+            commands: Object.keys(policy.commands),
+          };
+        })
+        .post("/policy/reload", () => reloadCommandPolicy())
+        .get("/dead-letters", () => ({
+          count: deadLetterStore.getCount(),
+          entries: deadLetterStore.list(),
+        }))
+        .get("/dead-letters/:id", ({ params, set }) => {
+          const entry = deadLetterStore.get(params.id);
+          if (!entry) {
+            set.status = 404;
+            return { error: "Dead-letter kaydı bulunamadı" };
+          }
+          return entry;
+        })
+        .post("/dead-letters/:id/replay", ({ params, set }) => {
+          if (!wsClient) {
+            set.status = 503;
+            return { success: false, error: "WebSocket istemcisi başlatılmadı" };
+          }
+
+          const result = wsClient.replayDeadLetter(params.id);
+          if (!result.success) {
+            set.status = result.code === "not_found" ? 404 : 409;
+          }
+          return result;
+        })
+        .delete("/dead-letters/:id", ({ params }) => ({
+          purged: deadLetterStore.purge(params.id),
+        }))
+        .delete("/dead-letters", () => ({ purged: deadLetterStore.purge() }))
+        // Komut ID'leri, kaynaklar ve eşzamanlılık anahtarları içerir
+        .get("/queue", () => commandQueue.getStats())
+        .post("/queue/pause", () => {
+          commandQueue.pause();
+          return getQueueState();
+        })
+        .post("/queue/resume", () => {
+          commandQueue.resume();
+          return getQueueState();
+        })
+        .post("/queue/drain", async ({ query }) => {
+          // timeout_ms verilmezse çalışan komutlar bitene kadar beklenir
+          const timeoutMs = Number(query.timeout_ms) || undefined;
+          const result = await commandQueue.drain(timeoutMs);
+          return { ...result, ...getQueueState() };
+        })
+        // Zamanlamalar komutları (ortam değişkenleri dahil) içerir
+        .get("/schedules", () => ({
+          schedules: commandScheduler.list(),
+          pending_results: commandScheduler.getPendingResultCount(),
+        })),
+  )
+  .listen({ hostname: API_HOST, port: API_PORT });
 
-console.log(`PinguShell WS Client API başlatıldı. Port: ${api.server?.port}`);
+console.log(
+  `PinguShell WS Client API başlatıldı: ${api.server?.hostname}:${api.server?.port}`,
+);
 
 /**
  * Ana uygulama başlatma fonksiyonu
@@ -35,6 +141,21 @@ const startApp = async () => {
       process.exit(1);
     }
 
+    // Komut politikasını yükle ve doğrula
+    try {
+      const policy = loadCommandPolicy();
+      console.log(
+        `Komut politikası yüklendi: ${policy.source} (revizyon: ${policy.revision})`,
+      );
+    } catch (error) {
+      console.error(
+        error instanceof PolicyValidationError
+          ? error.message
+          : `Komut politikası yüklenemedi: ${error}`,
+      );
+      process.exit(1);
+    }
+
     console.log("PinguShell WS Client başlatılıyor...");
     console.log(`VPS ID: ${VPS_ID}`);
     console.log(
@@ -44,28 +165,68 @@ const startApp = async () => {
       )}...${CONNECTION_TOKEN.substring(CONNECTION_TOKEN.length - 4)}`,
     );
 
-    // WebSocket client başlat
+    // WebSocket client başlat, önceki çalışmadan yarım kalan komutları devret
+    deadLetterStore.load();
+    outbox.load();
     wsClient = new WebSocketClient();
+    wsClient.resumeFromJournal(commandJournal.recover());
+
+    // Zamanlamalar bağlantıdan bağımsız çalışır, sonuçlar bağlanınca iletilir
+    commandScheduler.load();
+    commandScheduler.start();
     const connected = await wsClient.connect();
 
+    // İlk bağlantı kurulamazsa çıkılmaz: istemci backing_off üzerinden
+    // yeniden dener, zamanlamalar ve kurtarılan komutlar çalışmaya devam eder
     if (!connected) {
-      console.error("WebSocket bağlantısı kurulamadı!");
-      process.exit(1);
+      console.error(
+        "WebSocket bağlantısı kurulamadı, yeniden bağlanma denenecek",
+      );
     }
 
-    // Uygulama kapanma sinyali alındığında
-    ["SIGINT", "SIGTERM"].forEach((signal) => {
-      process.on(signal, () => {
-        console.log(`${signal} sinyali alındı, uygulama kapatılıyor...`);
+    // SIGINT ile hemen kapat
+    process.on("SIGINT", () => {
+      console.log("SIGINT sinyali alındı, uygulama kapatılıyor...");
+      shutdown();
+    });
 
-        // WebSocket bağlantısını kapat
-        if (wsClient) {
-          wsClient.disconnect();
-        }
+    // SIGTERM ile yeni komut almayı bırak, çalışanların bitmesini bekle.
+    // İkinci SIGTERM beklemeden kapatır.
+    let terminating = false;
+    process.on("SIGTERM", async () => {
+      if (terminating) {
+        console.log("İkinci SIGTERM alındı, beklemeden kapatılıyor...");
+        shutdown();
+        return;
+      }
+      terminating = true;
 
-        // Uygulamayı kapat
-        process.exit(0);
-      });
+      console.log(
+        `SIGTERM sinyali alındı, çalışan komutlar bekleniyor (en fazla ${SHUTDOWN_DRAIN_TIMEOUT_MS} ms)...`,
+      );
+      commandScheduler.stop();
+
+      const result = await commandQueue.drain(SHUTDOWN_DRAIN_TIMEOUT_MS);
+      if (!result.drained) {
+        // Yarım kalan komutlar yeniden başlatmada journal'dan ele alınır
+        console.warn(
+          `Süre doldu, bitmeyen komutlar: ${result.running.join(", ")}`,
+        );
+      }
+
+      shutdown();
+    });
+
+    // SIGHUP ile komut politikasını yeniden yükle
+    process.on("SIGHUP", () => {
+      const result = reloadCommandPolicy();
+      if (result.success) {
+        console.log(`Komut politikası yenilendi (revizyon: ${result.revision})`);
+      } else {
+        console.error(
+          `Komut politikası yenilenemedi, revizyon ${result.revision} kullanılmaya devam ediliyor`,
+        );
+      }
     });
 
     console.log("PinguShell WS Client başarıyla başlatıldı!");
@@ -75,5 +236,16 @@ const startApp = async () => {
   }
 };
 
+/**
+ * WebSocket bağlantısını kapatıp uygulamadan çık
+ */
+const shutdown = () => {
+  if (wsClient) {
+    wsClient.disconnect();
+  }
+
+  process.exit(0);
+};
+
 // Uygulamayı başlat
 startApp();
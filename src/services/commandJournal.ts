@@ -0,0 +1,301 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+import { DATA_DIR } from "../config";
+import type { CommandInput } from "../helpers/command";
+
+// Ajan yeniden başladığında yarım kalan komuta ne yapılacağı
+export type ReplayPolicy = "rerun" | "interrupt" | "discard";
+
+// Journal'a yazılan olaylar (her satır bir JSON)
+export type JournalEvent =
+  | {
+      event: "enqueue";
+      id: string;
+      command: CommandInput;
+      priority: number;
+      replay: ReplayPolicy;
+      metadata?: Record<string, any>;
+      at: string;
+    }
+  | { event: "start"; id: string; attempt: number; at: string }
+  | { event: "finish"; id: string; status: string; at: string }
+  | { event: "cancel"; id: string; reason: string; at: string };
+
+// Henüz bitmemiş komut kaydı
+export interface JournalEntry {
+  id: string;
+  command: CommandInput;
+  priority: number;
+  replay: ReplayPolicy;
+  metadata?: Record<string, any>;
+  enqueuedAt: string;
+  started: boolean; // Çalışmaya başlamış mıydı (yarıda kesildi mi)
+}
+
+// Başlangıçta kurtarılan işler
+export interface JournalRecovery {
+  rerun: JournalEntry[];
+  interrupted: JournalEntry[];
+  discarded: JournalEntry[];
+}
+
+const REPLAY_POLICIES: ReplayPolicy[] = ["rerun", "interrupt", "discard"];
+
+/**
+ * Mesajdaki yeniden başlatma politikasını doğrula (varsayılan: interrupt)
+ */
+export const parseReplayPolicy = (value: unknown): ReplayPolicy => {
+  return REPLAY_POLICIES.includes(value as ReplayPolicy)
+    ? (value as ReplayPolicy)
+    : "interrupt";
+};
+
+/**
+ * Append-only komut journal'ı.
+ * Kuyruğa giren her komut enqueue/start/finish/cancel olaylarıyla diske
+ * yazılır; ajan çökse bile bitmemiş işler başlangıçta geri okunur.
+ */
+export class CommandJournal {
+  private filePath: string;
+  private entries: Map<string, JournalEntry> = new Map();
+  private finishedSinceCompact: number = 0;
+  private compactThreshold: number;
+
+  constructor(filePath: string, compactThreshold: number = 500) {
+    this.filePath = filePath;
+    this.compactThreshold = compactThreshold;
+  }
+
+  /**
+   * Journal'ı oku, bitmemiş komutları politikalarına göre ayır ve dosyayı sıkıştır
+   */
+  public recover(): JournalRecovery {
+    const recovery: JournalRecovery = {
+      rerun: [],
+      interrupted: [],
+      discarded: [],
+    };
+
+    this.entries = this.readUnfinished();
+
+    for (const entry of this.entries.values()) {
+      if (entry.replay === "rerun") {
+        recovery.rerun.push(entry);
+      } else if (entry.replay === "interrupt") {
+        recovery.interrupted.push(entry);
+      } else {
+        recovery.discarded.push(entry);
+      }
+    }
+
+    // Atılanlar burada kapatılır; yeniden çalıştırılacaklar kuyruğa eklenince,
+    // kesintiye uğrayanlar sunucuya bildirilince journal'dan düşer
+    for (const entry of recovery.discarded) {
+      this.entries.delete(entry.id);
+    }
+    this.compact();
+
+    logger.info("Command journal recovered", {
+      path: this.filePath,
+      rerun: recovery.rerun.map((entry) => entry.id),
+      interrupted: recovery.interrupted.map((entry) => entry.id),
+      discarded: recovery.discarded.map((entry) => entry.id),
+    });
+
+    return recovery;
+  }
+
+  /**
+   * Komut kuyruğa alındı
+   */
+  public recordEnqueue(
+    entry: Omit<JournalEntry, "started" | "enqueuedAt">,
+  ): void {
+    const enqueuedAt = new Date().toISOString();
+    this.entries.set(entry.id, { ...entry, enqueuedAt, started: false });
+    this.append({
+      event: "enqueue",
+      id: entry.id,
+      command: entry.command,
+      priority: entry.priority,
+      replay: entry.replay,
+      metadata: entry.metadata,
+      at: enqueuedAt,
+    });
+  }
+
+  /**
+   * Komut çalışmaya başladı
+   */
+  public recordStart(id: string, attempt: number): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.started = true;
+    this.append({ event: "start", id, attempt, at: new Date().toISOString() });
+  }
+
+  /**
+   * Komut sonuçlandı (sonucu gönderildi veya kesinti bildirildi)
+   */
+  public recordFinish(id: string, status: string): void {
+    if (!this.entries.delete(id)) return;
+
+    this.append({ event: "finish", id, status, at: new Date().toISOString() });
+    this.afterClose();
+  }
+
+  /**
+   * Komut çalıştırılmadan kuyruktan çıkarıldı
+   */
+  public recordCancel(id: string, reason: string): void {
+    if (!this.entries.delete(id)) return;
+
+    this.append({ event: "cancel", id, reason, at: new Date().toISOString() });
+    this.afterClose();
+  }
+
+  /**
+   * Bitmemiş komutlar (kuyrukta bekleyen veya çalışan)
+   */
+  public getPending(): JournalEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Bitmemiş komut sayısı
+   */
+  public getPendingCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Dosyayı sadece bitmemiş komutların enqueue/start olaylarıyla yeniden yaz
+   */
+  public compact(): void {
+    const lines: string[] = [];
+    for (const entry of this.entries.values()) {
+      lines.push(
+        JSON.stringify({
+          event: "enqueue",
+          id: entry.id,
+          command: entry.command,
+          priority: entry.priority,
+          replay: entry.replay,
+          metadata: entry.metadata,
+          at: entry.enqueuedAt,
+        }),
+      );
+      if (entry.started) {
+        lines.push(
+          JSON.stringify({
+            event: "start",
+            id: entry.id,
+            attempt: 1,
+            at: entry.enqueuedAt,
+          }),
+        );
+      }
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Yarım yazılmış dosya bırakmamak için önce geçici dosyaya yaz
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        lines.length > 0 ? lines.join("\n") + "\n" : "",
+      );
+      fs.renameSync(tmpPath, this.filePath);
+      this.finishedSinceCompact = 0;
+    } catch (error) {
+      logger.error("Command journal compaction failed", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  private afterClose(): void {
+    this.finishedSinceCompact++;
+    if (this.finishedSinceCompact >= this.compactThreshold) {
+      this.compact();
+    }
+  }
+
+  private append(event: JournalEvent): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + "\n");
+    } catch (error) {
+      logger.error("Command journal write failed", {
+        path: this.filePath,
+        event: event.event,
+        command_id: event.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Olayları sırayla uygulayarak bitmemiş komutları bul.
+   * Çökme anında yarım kalmış son satır atlanır.
+   */
+  private readUnfinished(): Map<string, JournalEntry> {
+    const entries: Map<string, JournalEntry> = new Map();
+
+    if (!fs.existsSync(this.filePath)) {
+      return entries;
+    }
+
+    const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let event: JournalEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        logger.warn("Skipping corrupt command journal line", {
+          path: this.filePath,
+          line: index + 1,
+        });
+        return;
+      }
+
+      switch (event.event) {
+        case "enqueue":
+          entries.set(event.id, {
+            id: event.id,
+            command: event.command,
+            priority: event.priority,
+            replay: parseReplayPolicy(event.replay),
+            metadata: event.metadata,
+            enqueuedAt: event.at,
+            started: false,
+          });
+          break;
+        case "start": {
+          const entry = entries.get(event.id);
+          if (entry) entry.started = true;
+          break;
+        }
+        case "finish":
+        case "cancel":
+          entries.delete(event.id);
+          break;
+      }
+    });
+
+    return entries;
+  }
+}
+
+// Singleton journal instance
+export const commandJournal = new CommandJournal(
+  path.join(DATA_DIR, "command-journal.jsonl"),
+);
+
+export default commandJournal;
@@ -1,5 +1,28 @@
 import { logger } from "./logger";
-import { executeCommand } from "../helpers/command";
+import {
+  executeCommand,
+  cancelRunningCommand,
+  describeCommand,
+  CommandInput,
+  CommandResult,
+  CommandOutputChunk,
+} from "../helpers/command";
+import { commandJournal, CommandJournal, ReplayPolicy } from "./commandJournal";
+import {
+  deadLetterStore,
+  DeadLetterReason,
+  DeadLetterStore,
+} from "./deadLetter";
+import { QueueMetrics, QueueMetricsSnapshot } from "./queueMetrics";
+import { computeBackoffDelay } from "../helpers/backoff";
+import { QUEUE_ORIGIN_QUOTA, QUEUE_ORIGIN_WEIGHTS } from "../config";
+import {
+  DEFAULT_RETRY_POLICY,
+  isRetryableResult,
+  toCommandAttempt,
+  CommandAttempt,
+  RetryPolicy,
+} from "../helpers/retry";
 
 // Komut öncelik seviyeleri
 export enum CommandPriority {
@@ -9,19 +32,173 @@ export enum CommandPriority {
   CRITICAL = 4,
 }
 
+/**
+ * Komut kuyruktan çıkarıldı (iptal veya kapanış) - çalıştırılmadı
+ */
+export class CommandCancelledError extends Error {
+  constructor(message: string = "Command cancelled") {
+    super(message);
+    this.name = "CommandCancelledError";
+  }
+}
+
+/**
+ * Kuyruk komutu kabul etmedi (dolu veya aynı ID zaten kuyrukta)
+ */
+export class QueueRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueRejectedError";
+  }
+}
+
+/**
+ * Kaynağın kuyruk kotası doldu - diğer kaynakların komutları etkilenmez
+ */
+export class OriginQuotaExceededError extends QueueRejectedError {
+  public origin: string;
+  public limit: number;
+
+  constructor(origin: string, limit: number) {
+    super(
+      `Queue quota exceeded for origin "${origin}" (${limit} waiting commands)`,
+    );
+    this.name = "OriginQuotaExceededError";
+    this.origin = origin;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Mesajdaki önceliği (1-4 veya "low" | "normal" | "high" | "critical") çevir
+ */
+export const parseCommandPriority = (value: unknown): CommandPriority => {
+  if (typeof value === "number" && CommandPriority[value] !== undefined) {
+    return value as CommandPriority;
+  }
+
+  if (typeof value === "string") {
+    const priority =
+      CommandPriority[value.toUpperCase() as keyof typeof CommandPriority];
+    if (priority !== undefined) {
+      return priority;
+    }
+  }
+
+  return CommandPriority.NORMAL;
+};
+
+// Aynı anahtarı taşıyan komutların eşzamanlılık sınırı (ör. "apt" için 1)
+export interface ConcurrencyGroup {
+  key: string;
+  limit: number;
+}
+
+const MAX_CONCURRENCY_KEY_LENGTH = 128;
+
+/**
+ * Mesajdaki concurrency_key / concurrency_limit alanlarını çevir.
+ * Anahtar yoksa komut sadece genel eşzamanlılık sınırına tabidir.
+ */
+export const parseConcurrencyGroup = (
+  key: unknown,
+  limit: unknown,
+): ConcurrencyGroup | undefined => {
+  if (
+    typeof key !== "string" ||
+    key.length === 0 ||
+    key.length > MAX_CONCURRENCY_KEY_LENGTH
+  ) {
+    return undefined;
+  }
+
+  return {
+    key,
+    limit:
+      typeof limit === "number" && Number.isInteger(limit) && limit > 0
+        ? limit
+        : 1,
+  };
+};
+
+// Komutun kaynağı belirtilmezse
+export const DEFAULT_ORIGIN = "default";
+
+// Kaynak olarak kullanılacak mesaj alanları (ilk dolu olan)
+const ORIGIN_FIELDS = ["origin", "user_id", "client_id", "room_id"];
+
+const MAX_ORIGIN_LENGTH = 128;
+
+// Kaynaklar arası adil sıralamada önceliğin ağırlığı: HIGH komut gönderen
+// kaynak, NORMAL gönderenin iki katı sıklıkla sıraya girer ama onu bekletmez
+const PRIORITY_WEIGHTS: Record<CommandPriority, number> = {
+  [CommandPriority.LOW]: 1,
+  [CommandPriority.NORMAL]: 2,
+  [CommandPriority.HIGH]: 4,
+  [CommandPriority.CRITICAL]: 8,
+};
+
+/**
+ * Mesajdan komutun kaynağını (origin, user_id, client_id veya room_id) al
+ */
+export const parseCommandOrigin = (data: any): string => {
+  for (const field of ORIGIN_FIELDS) {
+    const value = data?.[field];
+    if (
+      typeof value === "string" &&
+      value.length > 0 &&
+      value.length <= MAX_ORIGIN_LENGTH
+    ) {
+      return value;
+    }
+  }
+
+  return DEFAULT_ORIGIN;
+};
+
+// Kuyruk doluluk dinleyicisi (true: bekleyen veya çalışan komut var)
+type ActivityListener = (active: boolean) => void;
+
+// Kuyruk durumu
+// running: normal, paused: yeni komut kabul edilir ama başlatılmaz,
+// draining: yeni komut reddedilir, çalışanların bitmesi beklenir
+export type QueueState = "running" | "paused" | "draining";
+
+// Drain sonucu
+export interface DrainResult {
+  drained: boolean; // Süre dolmadan tüm çalışan komutlar bitti mi
+  running: string[]; // Süre dolduğunda hâlâ çalışan komutlar
+  queued: number; // Başlatılmadan bekleyen komut sayısı
+}
+
 // Komut kuyruk öğesi
 interface QueuedCommand {
   id: string;
-  command: string;
+  command: CommandInput;
   priority: CommandPriority;
   addedAt: number;
-  attempts: number;
-  maxAttempts: number;
+  enqueuedAt: number; // İlk kuyruğa giriş (tekrar denemelerde değişmez)
+  attempts: number; // Tamamlanan deneme sayısı
+  retry: RetryPolicy;
+  history: CommandAttempt[]; // Önceki denemelerin özeti
+  outputs: Array<Pick<CommandResult, "stdout" | "stderr">>; // Deneme çıktıları (dead-letter için)
   timeout: number;
   metadata?: Record<string, any>;
-  onSuccess?: (result: any) => void;
+  onSuccess?: (result: CommandResult) => void;
   onError?: (error: any) => void;
   onProgress?: (progress: any) => void;
+  onOutput?: (chunk: CommandOutputChunk, attempt: number) => void;
+  replay: ReplayPolicy; // Ajan yeniden başlarsa bitmemiş komuta ne yapılacağı
+  concurrency?: ConcurrencyGroup;
+  origin: string; // Adil sıralama ve kota için kaynak (oda, kullanıcı, istemci)
+  holdsLock: boolean; // Anahtarın bir slotunu tutuyor mu (batch'e alındığında)
+  blockedSince?: number; // Anahtarın slotu boşalmayı beklemeye başladığı an
+}
+
+// Tekrar denemeden önce bekleyen komut
+interface RetryTimer {
+  command: QueuedCommand;
+  timer: NodeJS.Timeout;
 }
 
 // Batch işlem öğesi
@@ -39,41 +216,62 @@ interface QueueConfig {
   maxConcurrentCommands: number;
   batchSize: number;
   batchTimeout: number;
-  retryDelay: number;
   priorityBoostThreshold: number; // Queue'da ne kadar beklerse priority artırılacak
   performanceOptimization: boolean;
+  originQuota: number; // Bir kaynağın bekletebileceği en fazla komut
+  originWeights: Record<string, number>; // Kaynak ağırlıkları (varsayılan 1)
 }
 
 /**
  * Advanced Command Queue Manager
- * Komutları öncelik bazlı, batch'leyerek ve performansı optimize ederek işler
+ * Komutları kaynaklar arasında adil (ağırlıklı) ve öncelik bazlı sıralayarak,
+ * batch'leyerek ve performansı optimize ederek işler
  */
 export class CommandQueueManager {
   private config: QueueConfig;
   private queue: QueuedCommand[] = [];
   private processingQueue: Set<string> = new Set();
   private batches: Map<string, CommandBatch> = new Map();
+  private retryTimers: Map<string, RetryTimer> = new Map();
+  private lockHolders: Map<string, number> = new Map(); // Anahtar -> tutulan slot
+  private virtualTime: number = 0; // Adil sıralamanın sanal saati
+  private originFinish: Map<string, number> = new Map(); // Kaynak -> son sanal bitiş
   private processingInterval: NodeJS.Timeout | null = null;
   private batchInterval: NodeJS.Timeout | null = null;
+  private activityListeners: Set<ActivityListener> = new Set();
+  private active: boolean = false;
+  private state: QueueState = "running";
+  private drainWaiters: Set<() => void> = new Set();
+  private journal: CommandJournal | null;
+  private deadLetters: DeadLetterStore | null;
+  private queueMetrics: QueueMetrics = new QueueMetrics();
   private metrics = {
     totalCommands: 0,
     completedCommands: 0,
     failedCommands: 0,
-    averageExecutionTime: 0,
-    averageQueueTime: 0,
     batchesProcessed: 0,
     priorityBoosts: 0,
+    retries: 0,
+    deadLettered: 0,
+    lockWaits: 0,
   };
 
-  constructor(config?: Partial<QueueConfig>) {
+  constructor(
+    config?: Partial<QueueConfig>,
+    journal: CommandJournal | null = null,
+    deadLetters: DeadLetterStore | null = null,
+  ) {
+    this.journal = journal;
+    this.deadLetters = deadLetters;
     this.config = {
       maxQueueSize: 1000,
       maxConcurrentCommands: 5,
       batchSize: 3,
       batchTimeout: 2000, // 2 saniye
-      retryDelay: 1000,
       priorityBoostThreshold: 30000, // 30 saniye
       performanceOptimization: true,
+      originQuota: 100,
+      originWeights: {},
       ...config,
     };
 
@@ -98,17 +296,27 @@ export class CommandQueueManager {
    * Kuyruğa komut ekle
    */
   public async addCommand(
-    command: string,
+    command: CommandInput,
     options: {
+      id?: string; // Dışarıdan gelen komut ID'si (ör. sunucunun command_id'si)
       priority?: CommandPriority;
       timeout?: number;
-      maxAttempts?: number;
+      retry?: RetryPolicy;
       metadata?: Record<string, any>;
-      onSuccess?: (result: any) => void;
+      onSuccess?: (result: CommandResult) => void;
       onError?: (error: any) => void;
       onProgress?: (progress: any) => void;
+      onOutput?: (chunk: CommandOutputChunk, attempt: number) => void;
+      replay?: ReplayPolicy;
+      concurrency?: ConcurrencyGroup;
+      origin?: string;
     } = {},
   ): Promise<string> {
+    if (this.state === "draining") {
+      this.queueMetrics.recordCompletion("rejected");
+      throw new QueueRejectedError("Queue is draining, not accepting commands");
+    }
+
     // Queue boyut kontrolü
     if (this.queue.length >= this.config.maxQueueSize) {
       const error = "Queue is full, cannot add more commands";
@@ -116,40 +324,174 @@ export class CommandQueueManager {
         queue_size: this.queue.length,
         max_size: this.config.maxQueueSize,
       });
-      throw new Error(error);
+      this.queueMetrics.recordCompletion("rejected");
+      throw new QueueRejectedError(error);
     }
 
-    const commandId = this.generateCommandId();
+    if (options.id && this.hasCommand(options.id)) {
+      this.queueMetrics.recordCompletion("rejected");
+      throw new QueueRejectedError(`Command already queued: ${options.id}`);
+    }
+
+    // Tek bir kaynak kuyruğu doldurup diğerlerini reddettiremez
+    const origin = options.origin || DEFAULT_ORIGIN;
+    const backlog = this.getOriginBacklog(origin);
+    if (backlog >= this.config.originQuota) {
+      logger.warn("Origin queue quota exceeded", {
+        origin,
+        waiting: backlog,
+        quota: this.config.originQuota,
+      });
+      this.queueMetrics.recordCompletion("rejected");
+      throw new OriginQuotaExceededError(origin, this.config.originQuota);
+    }
+
+    const commandId = options.id || this.generateCommandId();
     const queuedCommand: QueuedCommand = {
       id: commandId,
       command,
       priority: options.priority || CommandPriority.NORMAL,
       addedAt: Date.now(),
+      enqueuedAt: Date.now(),
       attempts: 0,
-      maxAttempts: options.maxAttempts || 3,
+      retry: options.retry || DEFAULT_RETRY_POLICY,
+      history: [],
+      outputs: [],
       timeout: options.timeout || 30000,
       metadata: options.metadata,
       onSuccess: options.onSuccess,
       onError: options.onError,
       onProgress: options.onProgress,
+      onOutput: options.onOutput,
+      replay: options.replay || "interrupt",
+      concurrency: options.concurrency,
+      origin,
+      holdsLock: false,
     };
 
-    // Öncelik sırasına göre ekle
+    // Öncelik sırasına göre ekle, kaynaklar arası sıra batch'te belirlenir
     this.insertByPriority(queuedCommand);
     this.metrics.totalCommands++;
 
+    this.journal?.recordEnqueue({
+      id: commandId,
+      command,
+      priority: queuedCommand.priority,
+      replay: queuedCommand.replay,
+      metadata: options.metadata,
+    });
+
+    const commandLine = describeCommand(command);
     logger.debug("Command added to queue", {
       command_id: commandId,
       command_preview:
-        command.substring(0, 50) + (command.length > 50 ? "..." : ""),
+        commandLine.substring(0, 50) + (commandLine.length > 50 ? "..." : ""),
       priority: queuedCommand.priority,
+      origin,
       queue_position: this.queue.findIndex((cmd) => cmd.id === commandId),
       queue_size: this.queue.length,
     });
 
+    this.notifyActivity();
+    this.kickProcessing();
+
     return commandId;
   }
 
+  /**
+   * Boştaysa batch zamanlayıcısını beklemeden hemen işlemeye başla
+   */
+  private kickProcessing(): void {
+    if (!this.hasPendingBatch()) {
+      this.createBatch();
+      void this.processNextBatch();
+    }
+  }
+
+  /**
+   * Komut kuyrukta, bekleyen bir batch'te veya çalışmakta mı?
+   */
+  public hasCommand(commandId: string): boolean {
+    return (
+      this.processingQueue.has(commandId) ||
+      this.retryTimers.has(commandId) ||
+      this.queue.some((cmd) => cmd.id === commandId) ||
+      Array.from(this.batches.values()).some(
+        (batch) =>
+          batch.status === "pending" &&
+          batch.commands.some((cmd) => cmd.id === commandId),
+      )
+    );
+  }
+
+  private hasPendingBatch(): boolean {
+    return Array.from(this.batches.values()).some(
+      (batch) => batch.status === "pending",
+    );
+  }
+
+  /**
+   * Bekleyen (kuyruk + bekleyen batch + tekrar bekleyen) ve çalışan komut sayısı
+   */
+  public getOccupancy(): number {
+    let pendingInBatches = 0;
+    for (const batch of this.batches.values()) {
+      if (batch.status === "pending") {
+        pendingInBatches += batch.commands.length;
+      }
+    }
+
+    return (
+      this.queue.length +
+      pendingInBatches +
+      this.retryTimers.size +
+      this.processingQueue.size
+    );
+  }
+
+  /**
+   * Kuyruk boş <-> dolu geçişlerini dinle, aboneliği kaldıran fonksiyon döner
+   */
+  public onActivityChange(listener: ActivityListener): () => void {
+    this.activityListeners.add(listener);
+    return () => {
+      this.activityListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Ajan meşgul mü? Duraklatılmış veya boşaltılan kuyrukta bekleyen
+   * komutlar başlamayacağı için sadece çalışan komutlar sayılır
+   */
+  public isActive(): boolean {
+    return this.state === "running"
+      ? this.getOccupancy() > 0
+      : this.processingQueue.size > 0;
+  }
+
+  private notifyActivity(): void {
+    const active = this.isActive();
+
+    if (this.processingQueue.size === 0 && this.drainWaiters.size > 0) {
+      for (const resolve of this.drainWaiters) {
+        resolve();
+      }
+    }
+
+    if (active === this.active) return;
+
+    this.active = active;
+    for (const listener of this.activityListeners) {
+      try {
+        listener(active);
+      } catch (error) {
+        logger.warn("Queue activity listener error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
   private insertByPriority(command: QueuedCommand): void {
     let insertIndex = this.queue.length;
 
@@ -164,6 +506,100 @@ export class CommandQueueManager {
     this.queue.splice(insertIndex, 0, command);
   }
 
+  private getWeight(command: QueuedCommand): number {
+    return (
+      PRIORITY_WEIGHTS[command.priority] *
+      (this.config.originWeights[command.origin] || 1)
+    );
+  }
+
+  /**
+   * Ağırlıklı adil sıralama: her kaynak kendi sıradaki (en yüksek öncelikli)
+   * komutuyla yarışır, başlatılan her komut kaynağın sanal saatini ağırlığıyla
+   * ters orantılı ilerletir. Çok komut gönderen kaynak öne geçemez, az
+   * gönderen kaynak araya girer; kaynak içinde öncelik sırası korunur.
+   */
+  private getFairOrder(): QueuedCommand[] {
+    const pending: Map<string, QueuedCommand[]> = new Map();
+    for (const command of this.queue) {
+      const commands = pending.get(command.origin);
+      if (commands) {
+        commands.push(command);
+      } else {
+        pending.set(command.origin, [command]);
+      }
+    }
+
+    const finish = new Map(this.originFinish);
+    let virtualTime = this.virtualTime;
+    const order: QueuedCommand[] = [];
+
+    while (pending.size > 0) {
+      let next: { origin: string; start: number; tag: number } | null = null;
+
+      for (const [origin, commands] of pending) {
+        const start = Math.max(virtualTime, finish.get(origin) || 0);
+        const tag = start + 1 / this.getWeight(commands[0]);
+        if (!next || tag < next.tag) {
+          next = { origin, start, tag };
+        }
+      }
+
+      const commands = pending.get(next!.origin)!;
+      order.push(commands.shift()!);
+      finish.set(next!.origin, next!.tag);
+      virtualTime = next!.start;
+      if (commands.length === 0) {
+        pending.delete(next!.origin);
+      }
+    }
+
+    return order;
+  }
+
+  /**
+   * Batch'e alınan komutlar için kaynakların sanal saatini ilerlet,
+   * işi kalmayan kaynakların kaydını sil
+   */
+  private advanceVirtualTime(commands: QueuedCommand[]): void {
+    for (const command of commands) {
+      const start = Math.max(
+        this.virtualTime,
+        this.originFinish.get(command.origin) || 0,
+      );
+      this.originFinish.set(
+        command.origin,
+        start + 1 / this.getWeight(command),
+      );
+      this.virtualTime = start;
+    }
+
+    for (const [origin, finish] of this.originFinish) {
+      if (finish <= this.virtualTime) {
+        this.originFinish.delete(origin);
+      }
+    }
+  }
+
+  /**
+   * Kaynağın bekleyen (kuyruk, bekleyen batch, tekrar bekleyen) komut sayısı
+   */
+  private getOriginBacklog(origin: string): number {
+    let count = this.queue.filter((cmd) => cmd.origin === origin).length;
+
+    for (const batch of this.batches.values()) {
+      if (batch.status === "pending") {
+        count += batch.commands.filter((cmd) => cmd.origin === origin).length;
+      }
+    }
+
+    for (const { command } of this.retryTimers.values()) {
+      if (command.origin === origin) count++;
+    }
+
+    return count;
+  }
+
   /**
    * Priority boost - uzun süre bekleyen komutların önceliğini artır
    */
@@ -225,25 +661,37 @@ export class CommandQueueManager {
    * Batch oluşturucu
    */
   private createBatch(): CommandBatch | null {
-    if (this.queue.length === 0) {
+    // Duraklatılmış kuyrukta komutlar kuyrukta bekler, slot ayrılmaz
+    if (this.queue.length === 0 || this.state !== "running") {
       return null;
     }
 
-    // En yüksek öncelikli komutları al
+    // Batch boş eşzamanlılık slotlarından büyük olamaz
+    const batchLimit = Math.min(
+      this.config.batchSize,
+      this.config.maxConcurrentCommands - this.processingQueue.size,
+    );
+    if (batchLimit <= 0) {
+      return null;
+    }
+
+    // Adil sıradaki komutları al; anahtarının slotu dolu olanlar
+    // sırasını koruyarak kuyrukta bekler, arkasındaki işler devam eder
     const batchCommands: QueuedCommand[] = [];
-    const batchSize = Math.min(this.config.batchSize, this.queue.length);
 
-    for (let i = 0; i < batchSize; i++) {
-      if (this.queue.length > 0) {
-        const command = this.queue.shift()!;
+    for (const command of this.getFairOrder()) {
+      if (batchCommands.length < batchLimit && this.acquireLock(command)) {
         batchCommands.push(command);
       }
     }
+    this.queue = this.queue.filter((cmd) => !batchCommands.includes(cmd));
 
     if (batchCommands.length === 0) {
       return null;
     }
 
+    this.advanceVirtualTime(batchCommands);
+
     // Batch'in priority'si en yüksek komutun priority'si
     const maxPriority = Math.max(...batchCommands.map((cmd) => cmd.priority));
 
@@ -267,6 +715,75 @@ export class CommandQueueManager {
     return batch;
   }
 
+  /**
+   * Komutun eşzamanlılık anahtarında boş slot varsa al
+   */
+  private acquireLock(command: QueuedCommand): boolean {
+    const group = command.concurrency;
+    if (!group || command.holdsLock) {
+      return true;
+    }
+
+    const holders = this.lockHolders.get(group.key) || 0;
+    if (holders >= group.limit) {
+      if (command.blockedSince === undefined) {
+        command.blockedSince = Date.now();
+        this.metrics.lockWaits++;
+
+        logger.info("Command blocked on concurrency key", {
+          command_id: command.id,
+          concurrency_key: group.key,
+          limit: group.limit,
+          holders,
+        });
+
+        if (command.onProgress) {
+          command.onProgress({
+            status: "blocked",
+            concurrency_key: group.key,
+            holders,
+            limit: group.limit,
+          });
+        }
+      }
+      return false;
+    }
+
+    if (command.blockedSince !== undefined) {
+      logger.debug("Concurrency key acquired after waiting", {
+        command_id: command.id,
+        concurrency_key: group.key,
+        waited_ms: Date.now() - command.blockedSince,
+      });
+      command.blockedSince = undefined;
+    }
+
+    this.lockHolders.set(group.key, holders + 1);
+    command.holdsLock = true;
+    return true;
+  }
+
+  /**
+   * Komut bitti veya iptal edildi - slotu bırak ve bekleyenleri işlemeye başla
+   */
+  private releaseLock(command: QueuedCommand): void {
+    if (!command.concurrency || !command.holdsLock) {
+      return;
+    }
+
+    command.holdsLock = false;
+    const holders = (this.lockHolders.get(command.concurrency.key) || 1) - 1;
+    if (holders > 0) {
+      this.lockHolders.set(command.concurrency.key, holders);
+    } else {
+      this.lockHolders.delete(command.concurrency.key);
+    }
+
+    if (this.queue.some((cmd) => cmd.blockedSince !== undefined)) {
+      this.kickProcessing();
+    }
+  }
+
   /**
    * Batch processor başlat
    */
@@ -304,6 +821,11 @@ export class CommandQueueManager {
   }
 
   private async processNextBatch(): Promise<void> {
+    // Duraklatılmış veya boşaltılan kuyrukta yeni komut başlatılmaz
+    if (this.state !== "running") {
+      return;
+    }
+
     // Mevcut işlem sayısını kontrol et
     if (this.processingQueue.size >= this.config.maxConcurrentCommands) {
       return;
@@ -323,7 +845,17 @@ export class CommandQueueManager {
       return;
     }
 
+    // Batch oluşturulduktan sonra slotlar dolduysa fazlası kuyruğa döner;
+    // kuyrukta bekleyen komut anahtar slotu tutmaz
     const batch = pendingBatches[0];
+    const freeSlots =
+      this.config.maxConcurrentCommands - this.processingQueue.size;
+    if (batch.commands.length > freeSlots) {
+      const overflow = batch.commands.splice(freeSlots);
+      this.queue.unshift(...overflow);
+      overflow.forEach((command) => this.releaseLock(command));
+    }
+
     await this.processBatch(batch);
   }
 
@@ -339,29 +871,24 @@ export class CommandQueueManager {
 
     const startTime = Date.now();
 
-    // Paralel işleme için Promise.allSettled kullan
-    const commandPromises = batch.commands.map(async (command) => {
-      return this.executeQueuedCommand(command);
-    });
+    // Paralel işleme için Promise.allSettled kullan. Sonuçlar batch'in
+    // tamamını beklemeden, her komut bittiğinde bildirilir.
+    const commandPromises = batch.commands.map((command) =>
+      this.executeQueuedCommand(command).then(
+        (result) => this.handleAttemptResult(command, result),
+        (error) => {
+          this.handleCommandError(command, error);
+          throw error;
+        },
+      ),
+    );
 
     try {
       const results = await Promise.allSettled(commandPromises);
 
-      // Sonuçları işle
-      results.forEach((result, index) => {
-        const command = batch.commands[index];
-
-        if (result.status === "fulfilled") {
-          this.handleCommandSuccess(command, result.value);
-        } else {
-          this.handleCommandError(command, result.reason);
-        }
-      });
-
       batch.status = "completed";
 
       const executionTime = Date.now() - startTime;
-      this.updateAverageExecutionTime(executionTime);
 
       logger.info("Batch completed", {
         batch_id: batch.id,
@@ -373,23 +900,12 @@ export class CommandQueueManager {
     } catch (error) {
       batch.status = "failed";
 
+      // Tekrar denemeler komut bazında handleAttemptResult'ta yapılır
       logger.error("Batch processing failed", {
         batch_id: batch.id,
         error: error instanceof Error ? error.message : "Unknown error",
         command_count: batch.commands.length,
       });
-
-      // Başarısız komutları yeniden kuyruğa ekle (retry logic)
-      for (const command of batch.commands) {
-        if (command.attempts < command.maxAttempts) {
-          command.attempts++;
-          setTimeout(() => {
-            this.queue.unshift(command); // Öncelikli olarak başa ekle
-          }, this.config.retryDelay);
-        } else {
-          this.handleCommandError(command, new Error("Max attempts reached"));
-        }
-      }
     }
 
     // Batch'i temizle (bellek optimizasyonu)
@@ -398,21 +914,26 @@ export class CommandQueueManager {
     }, 30000); // 30 saniye sonra temizle
   }
 
-  private async executeQueuedCommand(command: QueuedCommand): Promise<any> {
+  private async executeQueuedCommand(
+    command: QueuedCommand,
+  ): Promise<CommandResult> {
     const commandId = command.id;
     this.processingQueue.add(commandId);
 
     const queueTime = Date.now() - command.addedAt;
-    this.updateAverageQueueTime(queueTime);
+    this.queueMetrics.recordQueueWait(queueTime);
+    const startedAt = Date.now();
 
     try {
       logger.debug("Executing queued command", {
         command_id: commandId,
-        command: command.command,
+        command: describeCommand(command.command),
         attempt: command.attempts + 1,
         queue_time_ms: queueTime,
       });
 
+      this.journal?.recordStart(commandId, command.attempts + 1);
+
       // Progress callback
       if (command.onProgress) {
         command.onProgress({
@@ -421,24 +942,106 @@ export class CommandQueueManager {
         });
       }
 
-      // Komutu çalıştır
-      const result = await executeCommand(command.command, commandId);
+      // Komutu çalıştır - çıktı parçaları deneme numarasıyla iletilir
+      const attempt = command.attempts + 1;
+      const onOutput = command.onOutput;
+      const result = await executeCommand(command.command, commandId, {
+        onOutput: onOutput && ((chunk) => onOutput(chunk, attempt)),
+      });
 
       this.processingQueue.delete(commandId);
+      this.queueMetrics.recordExecution(Date.now() - startedAt);
       return result;
     } catch (error) {
       this.processingQueue.delete(commandId);
+      this.queueMetrics.recordExecution(Date.now() - startedAt);
       throw error;
     }
   }
 
-  private handleCommandSuccess(command: QueuedCommand, result: any): void {
+  /**
+   * Deneme sonucu politikaya göre tekrar denenebilirse beklemeye al,
+   * değilse deneme geçmişiyle birlikte sonucu bildir
+   */
+  private handleAttemptResult(
+    command: QueuedCommand,
+    result: CommandResult,
+  ): void {
+    const attempt = command.attempts + 1;
+    const retryable = isRetryableResult(command.retry, result);
+    this.releaseLock(command);
+    command.outputs.push({ stdout: result.stdout, stderr: result.stderr });
+
+    if (retryable && attempt < command.retry.maxAttempts) {
+      const delay = computeBackoffDelay(attempt, command.retry);
+      command.history.push(toCommandAttempt(attempt, result, delay));
+      this.scheduleRetry(command, delay, result);
+      return;
+    }
+
+    command.history.push(toCommandAttempt(attempt, result));
+    if (command.retry.maxAttempts > 1) {
+      result = { ...result, attempts: command.history };
+    }
+
+    // Tekrar denemesi tanımlı komutta geçici hata tüm denemelerde sürdüyse
+    // komut incelenmek üzere saklanır (tek denemelik komutlar saklanmaz)
+    if (retryable && command.retry.maxAttempts > 1) {
+      this.moveToDeadLetter(command, "max_attempts_exhausted", result.error);
+    }
+
+    this.handleCommandSuccess(command, result);
+  }
+
+  private scheduleRetry(
+    command: QueuedCommand,
+    delay: number,
+    result: CommandResult,
+  ): void {
+    command.attempts++;
+    this.metrics.retries++;
+
+    logger.info("Command scheduled for retry", {
+      command_id: command.id,
+      attempt: command.attempts,
+      max_attempts: command.retry.maxAttempts,
+      status: result.status,
+      exit_code: result.exit_code,
+      delay_ms: delay,
+    });
+
+    if (command.onProgress) {
+      command.onProgress({
+        status: "retrying",
+        attempt: command.attempts,
+        next_attempt: command.attempts + 1,
+        delay_ms: delay,
+        previous_status: result.status,
+      });
+    }
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(command.id);
+      command.addedAt = Date.now();
+      this.insertByPriority(command);
+      this.kickProcessing();
+    }, delay);
+
+    this.retryTimers.set(command.id, { command, timer });
+    this.notifyActivity();
+  }
+
+  private handleCommandSuccess(
+    command: QueuedCommand,
+    result: CommandResult,
+  ): void {
     this.metrics.completedCommands++;
 
     logger.debug("Command completed successfully", {
       command_id: command.id,
       execution_time_ms: Date.now() - command.addedAt,
       exit_code: result.exit_code,
+      status: result.status,
     });
 
     if (command.onSuccess) {
@@ -451,14 +1054,55 @@ export class CommandQueueManager {
         });
       }
     }
+
+    this.queueMetrics.recordCompletion(
+      result.status,
+      Date.now() - command.enqueuedAt,
+    );
+
+    // Sonuç iletildikten sonra kapatılır; arada çökerse komut tekrar ele alınır
+    this.journal?.recordFinish(command.id, result.status);
+    this.notifyActivity();
+  }
+
+  /**
+   * Komutu tüm deneme çıktılarıyla dead-letter deposuna taşı
+   */
+  private moveToDeadLetter(
+    command: QueuedCommand,
+    reason: DeadLetterReason,
+    error?: string,
+  ): void {
+    if (!this.deadLetters) return;
+
+    this.metrics.deadLettered++;
+    this.deadLetters.add({
+      command_id: command.id,
+      command: command.command,
+      priority: command.priority,
+      metadata: command.metadata,
+      reason,
+      error,
+      attempts: command.history.map((attempt, index) => ({
+        ...attempt,
+        stdout: command.outputs[index]?.stdout || "",
+        stderr: command.outputs[index]?.stderr || "",
+      })),
+    });
   }
 
   private handleCommandError(command: QueuedCommand, error: any): void {
     this.metrics.failedCommands++;
+    this.releaseLock(command);
+    this.moveToDeadLetter(
+      command,
+      "execution_error",
+      error instanceof Error ? error.message : "Unknown error",
+    );
 
     logger.error("Command execution failed", {
       command_id: command.id,
-      command: command.command,
+      command: describeCommand(command.command),
       attempt: command.attempts,
       error: error instanceof Error ? error.message : "Unknown error",
     });
@@ -476,25 +1120,13 @@ export class CommandQueueManager {
         });
       }
     }
-  }
-
-  private updateAverageExecutionTime(newTime: number): void {
-    const completedCount = this.metrics.completedCommands;
-    const currentAverage = this.metrics.averageExecutionTime;
-
-    this.metrics.averageExecutionTime =
-      (currentAverage * (completedCount - 1) + newTime) / completedCount;
-  }
 
-  private updateAverageQueueTime(newTime: number): void {
-    const totalProcessed =
-      this.metrics.completedCommands + this.metrics.failedCommands;
-    const currentAverage = this.metrics.averageQueueTime;
-
-    this.metrics.averageQueueTime =
-      totalProcessed === 0
-        ? newTime
-        : (currentAverage * (totalProcessed - 1) + newTime) / totalProcessed;
+    this.queueMetrics.recordCompletion(
+      "internal_error",
+      Date.now() - command.enqueuedAt,
+    );
+    this.journal?.recordFinish(command.id, "internal_error");
+    this.notifyActivity();
   }
 
   /**
@@ -512,9 +1144,9 @@ export class CommandQueueManager {
   }
 
   /**
-   * Komut iptal et
+   * Komut iptal et (kuyrukta bekleyen veya çalışmakta olan)
    */
-  public cancelCommand(commandId: string): boolean {
+  public cancelCommand(commandId: string, gracePeriodMs?: number): boolean {
     const commandIndex = this.queue.findIndex((cmd) => cmd.id === commandId);
     if (commandIndex !== -1) {
       const command = this.queue.splice(commandIndex, 1)[0];
@@ -525,12 +1157,54 @@ export class CommandQueueManager {
       });
 
       if (command.onError) {
-        command.onError(new Error("Command cancelled"));
+        command.onError(new CommandCancelledError());
       }
 
+      this.queueMetrics.recordCompletion(
+        "cancelled",
+        Date.now() - command.enqueuedAt,
+      );
+      this.journal?.recordCancel(commandId, "cancelled");
+      this.notifyActivity();
       return true;
     }
 
+    // Tekrar denemeyi bekleyen komut bir daha çalıştırılmaz
+    const retrying = this.retryTimers.get(commandId);
+    if (retrying) {
+      clearTimeout(retrying.timer);
+      this.retryTimers.delete(commandId);
+
+      logger.debug("Command cancelled while waiting for retry", {
+        command_id: commandId,
+        attempts: retrying.command.attempts,
+      });
+
+      if (retrying.command.onError) {
+        retrying.command.onError(new CommandCancelledError());
+      }
+
+      this.queueMetrics.recordCompletion(
+        "cancelled",
+        Date.now() - retrying.command.enqueuedAt,
+      );
+      this.journal?.recordCancel(commandId, "cancelled");
+      this.notifyActivity();
+      return true;
+    }
+
+    // Çalışmakta olan komutu sonlandır, sonuç onSuccess ile iptal durumuyla gelir
+    if (this.processingQueue.has(commandId)) {
+      const cancelled = cancelRunningCommand(commandId, gracePeriodMs);
+
+      logger.debug("Command cancelled while executing", {
+        command_id: commandId,
+        signal_sent: cancelled,
+      });
+
+      return cancelled;
+    }
+
     // Batch'lerde ara
     for (const batch of this.batches.values()) {
       const commandIndex = batch.commands.findIndex(
@@ -538,6 +1212,7 @@ export class CommandQueueManager {
       );
       if (commandIndex !== -1 && batch.status === "pending") {
         const command = batch.commands.splice(commandIndex, 1)[0];
+        this.releaseLock(command);
 
         logger.debug("Command cancelled from batch", {
           command_id: commandId,
@@ -545,9 +1220,15 @@ export class CommandQueueManager {
         });
 
         if (command.onError) {
-          command.onError(new Error("Command cancelled"));
+          command.onError(new CommandCancelledError());
         }
 
+        this.queueMetrics.recordCompletion(
+          "cancelled",
+          Date.now() - command.enqueuedAt,
+        );
+        this.journal?.recordCancel(commandId, "cancelled");
+        this.notifyActivity();
         return true;
       }
     }
@@ -555,16 +1236,101 @@ export class CommandQueueManager {
     return false;
   }
 
+  /**
+   * Kuyruk durumu
+   */
+  public getState(): QueueState {
+    return this.state;
+  }
+
+  /**
+   * Yeni komut başlatmayı durdur, çalışanlar devam eder
+   */
+  public pause(): QueueState {
+    this.setState("paused");
+    return this.state;
+  }
+
+  /**
+   * Duraklatılmış veya boşaltılan kuyruğu normal çalışmaya döndür
+   */
+  public resume(): QueueState {
+    this.setState("running");
+    this.kickProcessing();
+    return this.state;
+  }
+
+  /**
+   * Yeni komutları reddet ve çalışan komutların bitmesini bekle.
+   * Süre dolarsa hâlâ çalışan komutlarla birlikte drained: false döner;
+   * bekleyen komutlar kuyrukta (ve journal'da) kalır.
+   */
+  public drain(timeoutMs?: number): Promise<DrainResult> {
+    this.setState("draining");
+
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | null = null;
+
+      const finish = () => {
+        if (timer) clearTimeout(timer);
+        this.drainWaiters.delete(finish);
+
+        const result: DrainResult = {
+          drained: this.processingQueue.size === 0,
+          running: Array.from(this.processingQueue),
+          queued: this.getOccupancy() - this.processingQueue.size,
+        };
+
+        logger.info("Queue drain finished", { ...result });
+        resolve(result);
+      };
+
+      if (this.processingQueue.size === 0) {
+        finish();
+        return;
+      }
+
+      this.drainWaiters.add(finish);
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(finish, timeoutMs);
+      }
+
+      logger.info("Draining command queue", {
+        running: Array.from(this.processingQueue),
+        timeout_ms: timeoutMs,
+      });
+    });
+  }
+
+  private setState(state: QueueState): void {
+    if (this.state === state) return;
+
+    logger.info("Command queue state changed", {
+      previous_state: this.state,
+      state,
+      queued: this.getOccupancy() - this.processingQueue.size,
+      running: this.processingQueue.size,
+    });
+
+    this.state = state;
+    this.notifyActivity();
+  }
+
   /**
    * Tüm kuyruğu temizle
    */
   public clearQueue(): void {
     const clearedCount = this.queue.length;
+    for (const command of this.queue) {
+      this.journal?.recordCancel(command.id, "queue_cleared");
+    }
     this.queue = [];
 
     logger.info("Queue cleared", {
       commands_cleared: clearedCount,
     });
+
+    this.notifyActivity();
   }
 
   /**
@@ -572,6 +1338,7 @@ export class CommandQueueManager {
    */
   public getStats() {
     const now = Date.now();
+    const latency = this.queueMetrics.snapshot(now);
     const queueWaitTimes = this.queue.map((cmd) => now - cmd.addedAt);
     const averageWaitTime =
       queueWaitTimes.length > 0
@@ -580,23 +1347,71 @@ export class CommandQueueManager {
         : 0;
 
     return {
+      state: this.state,
       queue_size: this.queue.length,
       processing_count: this.processingQueue.size,
+      retry_waiting_count: this.retryTimers.size,
+      concurrency: {
+        held_slots: Object.fromEntries(this.lockHolders),
+        blocked_commands: this.queue
+          .filter((cmd) => cmd.blockedSince !== undefined)
+          .map((cmd) => ({
+            command_id: cmd.id,
+            concurrency_key: cmd.concurrency!.key,
+            limit: cmd.concurrency!.limit,
+            waiting_ms: now - cmd.blockedSince!,
+          })),
+      },
       batch_count: this.batches.size,
-      metrics: this.metrics,
+      metrics: {
+        ...this.metrics,
+        averageExecutionTime: latency.execution.mean_ms,
+        averageQueueTime: latency.queue_wait.mean_ms,
+      },
       performance: {
         average_queue_wait_time_ms: averageWaitTime,
         queue_utilization:
           (this.processingQueue.size / this.config.maxConcurrentCommands) * 100,
-        throughput_per_minute:
-          this.metrics.completedCommands > 0
-            ? this.metrics.completedCommands / ((now - Date.now()) / 60000)
-            : 0,
+        throughput_per_minute: latency.throughput.per_minute,
+      },
+      latency: {
+        queue_wait: latency.queue_wait,
+        execution: latency.execution,
+        end_to_end: latency.end_to_end,
       },
+      status_counts: latency.status_counts,
       priority_distribution: this.getPriorityDistribution(),
+      origins: this.getOriginDistribution(),
     };
   }
 
+  /**
+   * Kaynak başına bekleyen komut sayısı ve ağırlık
+   */
+  private getOriginDistribution() {
+    const origins: Record<
+      string,
+      { waiting: number; quota: number; weight: number }
+    > = {};
+
+    for (const command of this.queue) {
+      origins[command.origin] ||= {
+        waiting: this.getOriginBacklog(command.origin),
+        quota: this.config.originQuota,
+        weight: this.config.originWeights[command.origin] || 1,
+      };
+    }
+
+    return origins;
+  }
+
+  /**
+   * Gecikme histogramları, durum sayaçları ve kayan pencere hızı
+   */
+  public getMetricsSnapshot(): QueueMetricsSnapshot {
+    return this.queueMetrics.snapshot();
+  }
+
   private getPriorityDistribution() {
     const distribution = {
       [CommandPriority.LOW]: 0,
@@ -632,22 +1447,44 @@ export class CommandQueueManager {
       this.batchInterval = null;
     }
 
-    // Bekleyen komutları iptal et
-    for (const command of this.queue) {
-      if (command.onError) {
-        command.onError(new Error("Queue shutdown"));
+    // Tekrar bekleyen komutlar kuyruğa geri alınır, aşağıda bekleyenlerle
+    // aynı şekilde ele alınır
+    for (const { command, timer } of this.retryTimers.values()) {
+      clearTimeout(timer);
+      this.queue.push(command);
+    }
+    this.retryTimers.clear();
+
+    // Journal varsa bekleyen komutlar iptal edilmez, diskte kalır ve
+    // sonraki açılışta replay politikalarına göre ele alınır
+    if (this.journal) {
+      logger.info("Pending commands kept in journal for replay", {
+        pending_commands: this.journal.getPendingCount(),
+      });
+    } else {
+      for (const command of this.queue) {
+        if (command.onError) {
+          command.onError(new CommandCancelledError("Queue shutdown"));
+        }
       }
     }
 
     this.queue = [];
     this.batches.clear();
     this.processingQueue.clear();
+    this.lockHolders.clear();
+    this.originFinish.clear();
+    this.notifyActivity();
 
     logger.info("Command queue cleanup completed");
   }
 }
 
 // Singleton queue instance
-export const commandQueue = new CommandQueueManager();
+export const commandQueue = new CommandQueueManager(
+  { originQuota: QUEUE_ORIGIN_QUOTA, originWeights: QUEUE_ORIGIN_WEIGHTS },
+  commandJournal,
+  deadLetterStore,
+);
 
 export default commandQueue;
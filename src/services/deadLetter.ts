@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+import { DATA_DIR } from "../config";
+import type { CommandInput } from "../helpers/command";
+import type { CommandAttempt } from "../helpers/retry";
+
+// Dead-letter'a düşme nedeni
+// max_attempts_exhausted: Geçici hata tüm denemelerde sürdü
+// execution_error: Komut çalıştırılırken ajan tarafında hata oluştu
+export type DeadLetterReason = "max_attempts_exhausted" | "execution_error";
+
+// Denemenin özeti ve çıktısı
+export interface DeadLetterAttempt extends CommandAttempt {
+  stdout: string;
+  stderr: string;
+}
+
+// Dead-letter kaydı
+export interface DeadLetterEntry {
+  id: string;
+  command_id: string;
+  command: CommandInput;
+  priority: number;
+  metadata?: Record<string, any>;
+  reason: DeadLetterReason;
+  error?: string;
+  attempts: DeadLetterAttempt[];
+  dead_lettered_at: string;
+}
+
+// Listeleme için kısa özet (çıktılar hariç)
+export interface DeadLetterSummary {
+  id: string;
+  command_id: string;
+  command: CommandInput;
+  reason: DeadLetterReason;
+  error?: string;
+  attempt_count: number;
+  last_status?: string;
+  dead_lettered_at: string;
+}
+
+/**
+ * Başarısız komutların saklandığı dead-letter deposu.
+ * Kayıtlar operatör tarafından incelenip yeniden çalıştırılana veya
+ * silinene kadar diskte tutulur.
+ */
+export class DeadLetterStore {
+  private filePath: string;
+  private maxEntries: number;
+  private entries: Map<string, DeadLetterEntry> = new Map();
+
+  constructor(filePath: string, maxEntries: number = 200) {
+    this.filePath = filePath;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Kayıtlı dead-letter'ları diskten oku
+   */
+  public load(): number {
+    this.entries.clear();
+
+    if (!fs.existsSync(this.filePath)) {
+      return 0;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      for (const entry of Array.isArray(raw) ? raw : []) {
+        if (entry && typeof entry.id === "string") {
+          this.entries.set(entry.id, entry);
+        }
+      }
+
+      logger.info("Dead letters loaded", {
+        path: this.filePath,
+        count: this.entries.size,
+      });
+    } catch (error) {
+      logger.error("Dead letter store could not be read", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return this.entries.size;
+  }
+
+  /**
+   * Komutu dead-letter'a ekle, depo doluysa en eski kayıt silinir
+   */
+  public add(
+    entry: Omit<DeadLetterEntry, "id" | "dead_lettered_at">,
+  ): DeadLetterEntry {
+    const deadLetter: DeadLetterEntry = {
+      ...entry,
+      id: `dl-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      dead_lettered_at: new Date().toISOString(),
+    };
+
+    this.entries.set(deadLetter.id, deadLetter);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      logger.warn("Dead letter store full, oldest entry dropped", {
+        dead_letter_id: oldest,
+        max_entries: this.maxEntries,
+      });
+    }
+
+    logger.warn("Command moved to dead letter store", {
+      dead_letter_id: deadLetter.id,
+      command_id: deadLetter.command_id,
+      reason: deadLetter.reason,
+      attempts: deadLetter.attempts.length,
+      error: deadLetter.error,
+    });
+
+    this.persist();
+    return deadLetter;
+  }
+
+  /**
+   * Kayıtların özetleri (en yeni önce)
+   */
+  public list(): DeadLetterSummary[] {
+    return Array.from(this.entries.values())
+      .reverse()
+      .map((entry) => ({
+        id: entry.id,
+        command_id: entry.command_id,
+        command: entry.command,
+        reason: entry.reason,
+        error: entry.error,
+        attempt_count: entry.attempts.length,
+        last_status: entry.attempts[entry.attempts.length - 1]?.status,
+        dead_lettered_at: entry.dead_lettered_at,
+      }));
+  }
+
+  /**
+   * Tek kaydı tüm deneme çıktılarıyla al
+   */
+  public get(id: string): DeadLetterEntry | null {
+    return this.entries.get(id) || null;
+  }
+
+  /**
+   * Yeniden çalıştırılmak üzere kaydı depodan çıkar
+   */
+  public take(id: string): DeadLetterEntry | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+
+    this.entries.delete(id);
+    this.persist();
+    return entry;
+  }
+
+  /**
+   * Kaydı (id verilmezse tüm kayıtları) sil, silinen kayıt sayısını döndür
+   */
+  public purge(id?: string): number {
+    let purged = 0;
+
+    if (id) {
+      purged = this.entries.delete(id) ? 1 : 0;
+    } else {
+      purged = this.entries.size;
+      this.entries.clear();
+    }
+
+    if (purged > 0) {
+      logger.info("Dead letters purged", { dead_letter_id: id, purged });
+      this.persist();
+    }
+
+    return purged;
+  }
+
+  /**
+   * Kayıt sayısı
+   */
+  public getCount(): number {
+    return this.entries.size;
+  }
+
+  private persist(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        JSON.stringify(Array.from(this.entries.values())),
+      );
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error("Dead letter store write failed", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
+
+// Singleton dead letter store
+export const deadLetterStore = new DeadLetterStore(
+  path.join(DATA_DIR, "dead-letters.json"),
+);
+
+export default deadLetterStore;
@@ -0,0 +1,126 @@
+import { logger } from "./logger";
+import { resultCache, ResultCache } from "./memoryManager";
+import { IDEMPOTENCY_WINDOW_MS } from "../config";
+import type { CommandResult } from "../helpers/command";
+
+// Tamamlanmış komutun saklanan sonucu
+export interface StoredResult {
+  command_id: string; // Komutu ilk çalıştıran ID
+  result: CommandResult;
+  completed_at: string;
+}
+
+// Çalışmakta olan komut ve ona bağlanan tekrar istekleri
+interface InFlightEntry {
+  command_id: string;
+  attached: Set<string>; // Sonucu bekleyen farklı command_id'ler
+}
+
+// Gelen komut için karar
+export type IdempotencyDecision =
+  | { state: "new" }
+  | { state: "in_flight"; original_id: string }
+  | { state: "completed"; stored: StoredResult };
+
+/**
+ * Idempotency key ile tekrar gelen komutları bastırır.
+ * Çalışırken gelen tekrarlar mevcut çalıştırmaya bağlanır, tamamlandıktan
+ * sonra gelenler pencere süresi boyunca saklanan sonucu alır.
+ */
+export class IdempotencyManager {
+  private cache: ResultCache;
+  private windowMs: number;
+  private inFlight: Map<string, InFlightEntry> = new Map();
+
+  constructor(
+    cache: ResultCache = resultCache,
+    windowMs: number = IDEMPOTENCY_WINDOW_MS,
+  ) {
+    this.cache = cache;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Komutun daha önce görülüp görülmediğini kontrol et.
+   * Yeni ise çalışıyor olarak işaretlenir; çalışıyorsa farklı ID bağlanır.
+   */
+  public claim(key: string, commandId: string): IdempotencyDecision {
+    const running = this.inFlight.get(key);
+    if (running) {
+      if (running.command_id !== commandId) {
+        running.attached.add(commandId);
+      }
+
+      logger.info("Duplicate command attached to in-flight execution", {
+        idempotency_key: key,
+        command_id: commandId,
+        original_id: running.command_id,
+      });
+      return { state: "in_flight", original_id: running.command_id };
+    }
+
+    const stored: StoredResult | null = this.cache.getResultByKey(key);
+    if (stored) {
+      logger.info("Duplicate command answered from stored result", {
+        idempotency_key: key,
+        command_id: commandId,
+        original_id: stored.command_id,
+      });
+      return { state: "completed", stored };
+    }
+
+    this.inFlight.set(key, { command_id: commandId, attached: new Set() });
+    return { state: "new" };
+  }
+
+  /**
+   * Sonucu pencere süresince sakla, bağlanan ID'leri döndür
+   */
+  public complete(key: string, result: CommandResult): string[] {
+    const running = this.inFlight.get(key);
+    if (!running) return [];
+
+    this.inFlight.delete(key);
+
+    const stored: StoredResult = {
+      command_id: running.command_id,
+      result,
+      completed_at: new Date().toISOString(),
+    };
+    this.cache.cacheResultByKey(key, stored, this.windowMs);
+
+    return Array.from(running.attached);
+  }
+
+  /**
+   * Komut sonuç üretmeden bitti (iptal, kuyruk reddi) - anahtar unutulur,
+   * böylece aynı komut tekrar gönderilirse yeniden çalıştırılır
+   */
+  public release(key: string): string[] {
+    const running = this.inFlight.get(key);
+    if (!running) return [];
+
+    this.inFlight.delete(key);
+    return Array.from(running.attached);
+  }
+
+  /**
+   * Saklanan sonucu unut - komut bilerek yeniden çalıştırılacaksa
+   * (ör. dead-letter replay) kullanılır
+   */
+  public forget(key: string): void {
+    this.cache.deleteResultByKey(key);
+  }
+
+  /**
+   * Çalışmakta olan anahtar sayısı
+   */
+  public getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+}
+
+// Singleton idempotency instance
+export const idempotency = new IdempotencyManager();
+
+export default idempotency;
@@ -0,0 +1,496 @@
+import { logger } from "./logger";
+import {
+  commandQueue,
+  CommandQueueManager,
+  CommandPriority,
+  CommandCancelledError,
+  ConcurrencyGroup,
+  parseConcurrencyGroup,
+} from "./commandQueue";
+import { parseRetryPolicy, RetryPolicy } from "../helpers/retry";
+import type { CommandInput, CommandResult } from "../helpers/command";
+
+// Adımın hangi durumda çalışacağı (bağımlılıkların sonucuna göre)
+export type StepCondition = "success" | "failure" | "always";
+
+// Adım durumu
+export type StepStatus =
+  | "pending"
+  | "running"
+  | "ok"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+// İşin birleşik durumu
+export type JobStatus = "ok" | "failed" | "cancelled";
+
+// İş adımı tanımı
+export interface JobStepDefinition {
+  id: string;
+  command: CommandInput;
+  dependsOn: string[];
+  runIf: StepCondition;
+  retry: RetryPolicy;
+  concurrency?: ConcurrencyGroup;
+}
+
+// Çok adımlı iş tanımı (adımlar bağımlılıklarıyla bir DAG oluşturur)
+export interface JobDefinition {
+  id: string;
+  steps: JobStepDefinition[];
+}
+
+// Adım sonucu
+export interface JobStepResult {
+  step_id: string;
+  status: StepStatus;
+  result?: CommandResult; // Sadece çalışan adımlarda
+  reason?: string; // Atlanma veya hata nedeni
+}
+
+// İş sonucu
+export interface JobResult {
+  job_id: string;
+  status: JobStatus;
+  steps: JobStepResult[];
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+}
+
+// Çalışan işin durumu
+interface RunningJob {
+  definition: JobDefinition;
+  priority: CommandPriority;
+  origin?: string; // Adımlar aynı kaynağın kotasına ve sırasına tabidir
+  steps: Map<string, JobStepResult>;
+  startedAt: number;
+  cancelled: boolean;
+  onStepFinished?: (step: JobStepResult) => void;
+  resolve: (result: JobResult) => void;
+}
+
+const STEP_CONDITIONS: StepCondition[] = ["success", "failure", "always"];
+const MAX_JOB_STEPS = 50;
+
+/**
+ * İş tanımı geçersiz - hiçbir adım çalıştırılmaz
+ */
+export class JobValidationError extends Error {
+  public readonly errors: string[];
+
+  constructor(jobId: string, errors: string[]) {
+    super(
+      `İş tanımı geçersiz (${jobId}):\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
+    this.name = "JobValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * Mesajdaki iş tanımını doğrula: benzersiz adım ID'leri, var olan
+ * bağımlılıklar ve döngü olmaması
+ */
+export const parseJobDefinition = (raw: any): JobDefinition => {
+  const errors: string[] = [];
+  const jobId = typeof raw?.job_id === "string" ? raw.job_id : "";
+
+  if (!jobId) {
+    errors.push("job_id: string olmalı");
+  }
+
+  if (!Array.isArray(raw?.steps) || raw.steps.length === 0) {
+    throw new JobValidationError(jobId || "?", [
+      ...errors,
+      "steps: en az bir adım içeren liste olmalı",
+    ]);
+  }
+
+  if (raw.steps.length > MAX_JOB_STEPS) {
+    errors.push(`steps: en fazla ${MAX_JOB_STEPS} adım olabilir`);
+  }
+
+  const steps: JobStepDefinition[] = [];
+  const ids = new Set<string>();
+
+  raw.steps.forEach((step: any, index: number) => {
+    const prefix = `steps[${index}]`;
+
+    if (typeof step?.id !== "string" || !step.id) {
+      errors.push(`${prefix}.id: string olmalı`);
+      return;
+    }
+    if (ids.has(step.id)) {
+      errors.push(`${prefix}.id: aynı ID birden fazla adımda (${step.id})`);
+      return;
+    }
+    ids.add(step.id);
+
+    if (
+      typeof step.command !== "string" &&
+      (typeof step.command !== "object" || step.command === null)
+    ) {
+      errors.push(
+        `${prefix}.command: komut metni veya { program, args } olmalı`,
+      );
+    }
+
+    const dependsOn = step.depends_on ?? [];
+    if (
+      !Array.isArray(dependsOn) ||
+      dependsOn.some((dep: unknown) => typeof dep !== "string")
+    ) {
+      errors.push(`${prefix}.depends_on: adım ID listesi olmalı`);
+    }
+
+    const runIf = step.run_if ?? "success";
+    if (!STEP_CONDITIONS.includes(runIf)) {
+      errors.push(
+        `${prefix}.run_if: ${STEP_CONDITIONS.join(", ")} değerlerinden biri olmalı`,
+      );
+    }
+
+    steps.push({
+      id: step.id,
+      command: step.command,
+      dependsOn: Array.isArray(dependsOn) ? dependsOn : [],
+      runIf,
+      retry: parseRetryPolicy(step.retry),
+      concurrency: parseConcurrencyGroup(
+        step.concurrency_key,
+        step.concurrency_limit,
+      ),
+    });
+  });
+
+  for (const step of steps) {
+    for (const dep of step.dependsOn) {
+      if (!ids.has(dep)) {
+        errors.push(`steps.${step.id}.depends_on: bilinmeyen adım (${dep})`);
+      } else if (dep === step.id) {
+        errors.push(
+          `steps.${step.id}.depends_on: adım kendisine bağlı olamaz`,
+        );
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    const cycle = findCycle(steps);
+    if (cycle) {
+      errors.push(`steps: döngüsel bağımlılık (${cycle.join(" -> ")})`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new JobValidationError(jobId || "?", errors);
+  }
+
+  return { id: jobId, steps };
+};
+
+/**
+ * Bağımlılık grafiğinde döngü varsa döngüdeki adımları döndür
+ */
+const findCycle = (steps: JobStepDefinition[]): string[] | null => {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, "visiting");
+    stack.push(id);
+    for (const dep of byId.get(id)!.dependsOn) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+const isTerminal = (status: StepStatus): boolean =>
+  status !== "pending" && status !== "running";
+
+/**
+ * Çok adımlı işleri komut kuyruğu üzerinden çalıştırır.
+ * Bağımlılıkları biten adımlar kuyruğa alınır; bağımsız adımlar paralel
+ * çalışır (fan-out), birden fazla bağımlılığı olan adım hepsini bekler (fan-in).
+ */
+export class JobRunner {
+  private queue: CommandQueueManager;
+  private jobs: Map<string, RunningJob> = new Map();
+
+  constructor(queue: CommandQueueManager = commandQueue) {
+    this.queue = queue;
+  }
+
+  /**
+   * İşi başlat, tüm adımlar bitince birleşik sonuçla çözülür
+   */
+  public runJob(
+    definition: JobDefinition,
+    options: {
+      priority?: CommandPriority;
+      origin?: string;
+      onStepFinished?: (step: JobStepResult) => void;
+    } = {},
+  ): Promise<JobResult> {
+    if (this.jobs.has(definition.id)) {
+      return Promise.reject(
+        new JobValidationError(definition.id, ["job_id: iş zaten çalışıyor"]),
+      );
+    }
+
+    return new Promise((resolve) => {
+      const job: RunningJob = {
+        definition,
+        priority: options.priority || CommandPriority.NORMAL,
+        origin: options.origin,
+        steps: new Map(
+          definition.steps.map((step) => [
+            step.id,
+            { step_id: step.id, status: "pending" },
+          ]),
+        ),
+        startedAt: Date.now(),
+        cancelled: false,
+        onStepFinished: options.onStepFinished,
+        resolve,
+      };
+
+      this.jobs.set(definition.id, job);
+
+      logger.info("Job started", {
+        job_id: definition.id,
+        step_count: definition.steps.length,
+      });
+
+      this.advance(job);
+    });
+  }
+
+  /**
+   * İşi iptal et: bekleyen adımlar çalıştırılmaz, çalışanlar sonlandırılır
+   */
+  public cancelJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) return false;
+
+    job.cancelled = true;
+
+    for (const step of job.steps.values()) {
+      if (step.status === "running") {
+        this.queue.cancelCommand(this.stepCommandId(job, step.step_id));
+      } else if (step.status === "pending") {
+        this.finishStep(job, step.step_id, "cancelled", {
+          reason: "İş iptal edildi",
+        });
+      }
+    }
+
+    this.advance(job);
+    return true;
+  }
+
+  /**
+   * Çalışmakta olan iş sayısı
+   */
+  public getActiveJobCount(): number {
+    return this.jobs.size;
+  }
+
+  private stepCommandId(job: RunningJob, stepId: string): string {
+    return `${job.definition.id}:${stepId}`;
+  }
+
+  /**
+   * Bağımlılıkları biten adımları çalıştır veya atla, hepsi bittiyse işi kapat
+   */
+  private advance(job: RunningJob): void {
+    let progressed = true;
+
+    while (progressed) {
+      progressed = false;
+
+      for (const step of job.definition.steps) {
+        if (job.steps.get(step.id)!.status !== "pending") continue;
+
+        const deps = step.dependsOn.map((dep) => job.steps.get(dep)!.status);
+        if (!deps.every(isTerminal)) continue;
+
+        const skipReason = this.checkCondition(step, deps);
+        if (skipReason) {
+          this.finishStep(job, step.id, "skipped", { reason: skipReason });
+          progressed = true;
+          continue;
+        }
+
+        this.startStep(job, step);
+      }
+    }
+
+    const results = Array.from(job.steps.values());
+    if (results.every((step) => isTerminal(step.status))) {
+      this.completeJob(job, results);
+    }
+  }
+
+  /**
+   * Adımın koşulu sağlanmıyorsa atlanma nedenini döndür
+   */
+  private checkCondition(
+    step: JobStepDefinition,
+    deps: StepStatus[],
+  ): string | null {
+    const anyFailed = deps.some(
+      (status) => status === "failed" || status === "cancelled",
+    );
+
+    switch (step.runIf) {
+      case "always":
+        return null;
+      case "failure":
+        return anyFailed ? null : "Bağımlılıklarda başarısız adım yok";
+      default:
+        return deps.every((status) => status === "ok")
+          ? null
+          : "Bağımlı olduğu adım başarılı olmadı";
+    }
+  }
+
+  private startStep(job: RunningJob, step: JobStepDefinition): void {
+    job.steps.get(step.id)!.status = "running";
+
+    this.queue
+      .addCommand(step.command, {
+        id: this.stepCommandId(job, step.id),
+        priority: job.priority,
+        origin: job.origin,
+        retry: step.retry,
+        concurrency: step.concurrency,
+        // İş durumu bellekte tutulur, yarıda kalan adım yeniden başlatılmaz
+        replay: "discard",
+        metadata: {
+          source: "job",
+          job_id: job.definition.id,
+          step_id: step.id,
+        },
+        onSuccess: (result) => {
+          const status: StepStatus =
+            result.status === "ok"
+              ? "ok"
+              : result.status === "cancelled"
+                ? "cancelled"
+                : "failed";
+
+          this.finishStep(job, step.id, status, {
+            result,
+            reason: result.error,
+          });
+          this.advance(job);
+        },
+        onError: (error) => {
+          this.finishStep(
+            job,
+            step.id,
+            error instanceof CommandCancelledError ? "cancelled" : "failed",
+            {
+              reason: error instanceof Error ? error.message : "Unknown error",
+            },
+          );
+          this.advance(job);
+        },
+      })
+      .catch((error) => {
+        this.finishStep(job, step.id, "failed", {
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+        this.advance(job);
+      });
+  }
+
+  private finishStep(
+    job: RunningJob,
+    stepId: string,
+    status: StepStatus,
+    details: { result?: CommandResult; reason?: string } = {},
+  ): void {
+    const step = job.steps.get(stepId)!;
+    step.status = status;
+    step.result = details.result;
+    step.reason = details.reason;
+
+    logger.debug("Job step finished", {
+      job_id: job.definition.id,
+      step_id: stepId,
+      status,
+      reason: details.reason,
+    });
+
+    if (job.onStepFinished) {
+      try {
+        job.onStepFinished(step);
+      } catch (error) {
+        logger.warn("Job step callback error", {
+          job_id: job.definition.id,
+          step_id: stepId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
+  private completeJob(job: RunningJob, steps: JobStepResult[]): void {
+    if (!this.jobs.delete(job.definition.id)) return;
+
+    const status: JobStatus = job.cancelled
+      ? "cancelled"
+      : steps.some(
+            (step) => step.status === "failed" || step.status === "cancelled",
+          )
+        ? "failed"
+        : "ok";
+
+    const finishedAt = Date.now();
+
+    logger.info("Job completed", {
+      job_id: job.definition.id,
+      status,
+      duration_ms: finishedAt - job.startedAt,
+      step_statuses: Object.fromEntries(
+        steps.map((step) => [step.step_id, step.status]),
+      ),
+    });
+
+    job.resolve({
+      job_id: job.definition.id,
+      status,
+      steps,
+      started_at: new Date(job.startedAt).toISOString(),
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - job.startedAt,
+    });
+  }
+}
+
+// Singleton job runner instance
+export const jobRunner = new JobRunner();
+
+export default jobRunner;
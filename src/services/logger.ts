@@ -296,7 +296,7 @@ class Logger {
   commandExecution(
     commandId: string,
     command: string,
-    status: "start" | "success" | "failed" | "blocked",
+    status: "start" | "success" | "failed" | "blocked" | "cancelled",
     details?: any,
   ): void {
     const level = status === "blocked" ? LogLevel.SECURITY : LogLevel.AUDIT;
@@ -314,7 +314,12 @@ class Logger {
   }
 
   connectionEvent(
-    event: "connect" | "disconnect" | "auth_success" | "auth_failed",
+    event:
+      | "connect"
+      | "disconnect"
+      | "auth_success"
+      | "auth_failed"
+      | "state_change",
     details?: any,
   ): void {
     this.audit(`WebSocket ${event}`, {
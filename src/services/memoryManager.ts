@@ -534,6 +534,27 @@ export class ResultCache extends MemoryManager<any> {
     return this.get(key);
   }
 
+  /**
+   * Sonucu komut metni yerine verilen anahtarla (ör. idempotency key) cache'le
+   */
+  public cacheResultByKey(key: string, result: any, ttl?: number): boolean {
+    return this.set(`key:${key}`, result, ttl);
+  }
+
+  /**
+   * Anahtarla cache'lenmiş sonucu al
+   */
+  public getResultByKey(key: string): any | null {
+    return this.get(`key:${key}`);
+  }
+
+  /**
+   * Anahtarla cache'lenmiş sonucu sil
+   */
+  public deleteResultByKey(key: string): boolean {
+    return this.delete(`key:${key}`);
+  }
+
   private hashCommand(command: string): string {
     // Simple hash function for command
     let hash = 0;
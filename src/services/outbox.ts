@@ -0,0 +1,363 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+import { DATA_DIR, OUTBOX_MAX_AGE_MS, OUTBOX_MAX_BYTES } from "../config";
+
+// Gönderilemeyen veya sunucu onayı bekleyen giden mesaj
+export interface OutboxEntry {
+  message_id: string;
+  type: string;
+  message: Record<string, any>; // Gönderilen mesajın tamamı (message_id dahil)
+  created_at: number;
+  attempts: number; // Kaç kez gönderildi (0: bağlantı yokken eklendi)
+  last_sent_at: number | null;
+  size: number; // Mesajın JSON boyutu (bayt)
+}
+
+// Outbox özeti
+export interface OutboxStats {
+  depth: number; // Bekleyen mesaj sayısı
+  bytes: number; // Bekleyen mesajların toplam boyutu
+  oldest_age_ms: number;
+  acked: number;
+  dropped: number; // Sınır veya süre aşıldığı için onaysız silinen
+  retransmitted: number;
+}
+
+// Mesajın outbox'tan çıkma nedeni
+type RemoveReason = "sent" | "acked" | "max_bytes" | "max_age";
+
+// Outbox dosyasına yazılan olaylar (her satır bir JSON)
+type OutboxEvent =
+  | {
+      event: "add";
+      message_id: string;
+      type: string;
+      message: Record<string, any>;
+      created_at: number;
+    }
+  | { event: "sent"; message_id: string; at: number }
+  | { event: "remove"; message_id: string; reason: RemoveReason };
+
+/**
+ * Gönderilemeyen ve onaylanmayan giden mesajları diskte tutar. Mesajlar
+ * yeniden bağlanınca (ajan yeniden başlasa bile) aynı message_id ile sırayla
+ * tekrar gönderilir; sunucu aynı ID'yi ikinci kez işlemeyip sadece onaylar.
+ * Dosya append-only tutulur (add/sent/remove olayları), çıkan mesaj sayısı
+ * eşiği aşınca bekleyen mesajlarla yeniden yazılır.
+ */
+export class Outbox {
+  private filePath: string;
+  private maxBytes: number;
+  private maxAgeMs: number;
+  private compactThreshold: number;
+  private entries: Map<string, OutboxEntry> = new Map();
+  private totalBytes: number = 0;
+  private removedSinceCompact: number = 0;
+  private sequence: number = 0;
+  private metrics = {
+    acked: 0,
+    dropped: 0,
+    retransmitted: 0,
+  };
+
+  constructor(
+    filePath: string,
+    maxBytes: number = OUTBOX_MAX_BYTES,
+    maxAgeMs: number = OUTBOX_MAX_AGE_MS,
+    compactThreshold: number = 500,
+  ) {
+    this.filePath = filePath;
+    this.maxBytes = maxBytes;
+    this.maxAgeMs = maxAgeMs;
+    this.compactThreshold = compactThreshold;
+  }
+
+  /**
+   * Önceki çalışmadan kalan mesajları diskten oku ve dosyayı sıkıştır
+   */
+  public load(): number {
+    this.entries.clear();
+    this.totalBytes = 0;
+
+    if (!fs.existsSync(this.filePath)) {
+      return 0;
+    }
+
+    try {
+      const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+
+        let event: OutboxEvent;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          // Çökme anında yarım kalmış satır
+          logger.warn("Skipping corrupt outbox line", {
+            path: this.filePath,
+            line: index + 1,
+          });
+          return;
+        }
+        this.apply(event);
+      });
+
+      this.compact();
+      logger.info("Outbox loaded", {
+        path: this.filePath,
+        count: this.entries.size,
+        bytes: this.totalBytes,
+      });
+    } catch (error) {
+      logger.error("Outbox could not be read", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return this.entries.size;
+  }
+
+  /**
+   * Giden mesaj için benzersiz ID
+   */
+  public nextMessageId(): string {
+    this.sequence++;
+    return `msg-${Date.now()}-${this.sequence}-${Math.random()
+      .toString(36)
+      .substr(2, 6)}`;
+  }
+
+  public has(messageId: string): boolean {
+    return this.entries.has(messageId);
+  }
+
+  /**
+   * Mesajı gönderim veya onay beklemeye al, boyut sınırı aşılırsa en eski
+   * mesajlar silinir
+   */
+  public add(message: Record<string, any>): void {
+    const event: OutboxEvent = {
+      event: "add",
+      message_id: message.message_id,
+      type: message.type,
+      message,
+      created_at: Date.now(),
+    };
+    this.apply(event);
+    this.append(event);
+
+    while (this.totalBytes > this.maxBytes) {
+      const oldest = this.entries.values().next().value as OutboxEntry;
+      this.drop(oldest, "max_bytes");
+    }
+  }
+
+  /**
+   * Mesaj sokete yazıldı. Sunucu onay vermiyorsa (v4 öncesi) mesaj burada
+   * tamamlanmış sayılır.
+   */
+  public markSent(messageId: string, awaitAck: boolean = true): void {
+    const entry = this.entries.get(messageId);
+    if (!entry) return;
+
+    if (entry.attempts > 0) {
+      this.metrics.retransmitted++;
+    }
+
+    if (!awaitAck) {
+      this.remove(messageId, "sent");
+      return;
+    }
+
+    const event: OutboxEvent = {
+      event: "sent",
+      message_id: messageId,
+      at: Date.now(),
+    };
+    this.apply(event);
+    this.append(event);
+  }
+
+  /**
+   * Sunucunun onayladığı mesajları sil, silinen mesaj sayısını döndür.
+   * Bilinmeyen veya zaten onaylanmış ID'ler yok sayılır.
+   */
+  public ack(messageIds: string[]): number {
+    let acked = 0;
+    for (const messageId of messageIds) {
+      if (this.remove(messageId, "acked")) {
+        acked++;
+      }
+    }
+
+    this.metrics.acked += acked;
+    return acked;
+  }
+
+  /**
+   * Tekrar gönderilecek mesajlar (eskiden yeniye), süresi dolanlar silinir
+   */
+  public getPending(now: number = Date.now()): OutboxEntry[] {
+    const expired = Array.from(this.entries.values()).filter(
+      (entry) => now - entry.created_at > this.maxAgeMs,
+    );
+    for (const entry of expired) {
+      this.drop(entry, "max_age");
+    }
+
+    return Array.from(this.entries.values());
+  }
+
+  public getStats(now: number = Date.now()): OutboxStats {
+    const oldest = this.entries.values().next().value as
+      | OutboxEntry
+      | undefined;
+
+    return {
+      depth: this.entries.size,
+      bytes: this.totalBytes,
+      oldest_age_ms: oldest ? now - oldest.created_at : 0,
+      ...this.metrics,
+    };
+  }
+
+  /**
+   * Dosyayı sadece bekleyen mesajların add/sent olaylarıyla yeniden yaz
+   */
+  public compact(): void {
+    const lines: string[] = [];
+    for (const entry of this.entries.values()) {
+      lines.push(
+        JSON.stringify({
+          event: "add",
+          message_id: entry.message_id,
+          type: entry.type,
+          message: entry.message,
+          created_at: entry.created_at,
+        }),
+      );
+      for (let attempt = 0; attempt < entry.attempts; attempt++) {
+        lines.push(
+          JSON.stringify({
+            event: "sent",
+            message_id: entry.message_id,
+            at: entry.last_sent_at,
+          }),
+        );
+      }
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Yarım yazılmış dosya bırakmamak için önce geçici dosyaya yaz
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        lines.length > 0 ? lines.join("\n") + "\n" : "",
+      );
+      fs.renameSync(tmpPath, this.filePath);
+      this.removedSinceCompact = 0;
+    } catch (error) {
+      logger.error("Outbox compaction failed", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Olayı bellekteki duruma uygula (yazarken ve okurken aynı yol)
+   */
+  private apply(event: OutboxEvent): void {
+    switch (event.event) {
+      case "add": {
+        if (typeof event.message_id !== "string" || !event.message) return;
+
+        this.deleteEntry(event.message_id);
+        const size = Buffer.byteLength(JSON.stringify(event.message));
+        this.entries.set(event.message_id, {
+          message_id: event.message_id,
+          type: event.type,
+          message: event.message,
+          created_at: event.created_at,
+          attempts: 0,
+          last_sent_at: null,
+          size,
+        });
+        this.totalBytes += size;
+        break;
+      }
+      case "sent": {
+        const entry = this.entries.get(event.message_id);
+        if (entry) {
+          entry.attempts++;
+          entry.last_sent_at = event.at;
+        }
+        break;
+      }
+      case "remove":
+        this.deleteEntry(event.message_id);
+        break;
+    }
+  }
+
+  private remove(messageId: string, reason: RemoveReason): boolean {
+    if (!this.entries.has(messageId)) return false;
+
+    const event: OutboxEvent = {
+      event: "remove",
+      message_id: messageId,
+      reason,
+    };
+    this.apply(event);
+    this.append(event);
+
+    this.removedSinceCompact++;
+    if (this.removedSinceCompact >= this.compactThreshold) {
+      this.compact();
+    }
+    return true;
+  }
+
+  private deleteEntry(messageId: string): void {
+    const entry = this.entries.get(messageId);
+    if (!entry) return;
+
+    this.entries.delete(messageId);
+    this.totalBytes -= entry.size;
+  }
+
+  private drop(entry: OutboxEntry, reason: "max_bytes" | "max_age"): void {
+    this.remove(entry.message_id, reason);
+    this.metrics.dropped++;
+
+    logger.warn("Unacknowledged message dropped from outbox", {
+      message_id: entry.message_id,
+      type: entry.type,
+      attempts: entry.attempts,
+      size: entry.size,
+      reason,
+    });
+  }
+
+  private append(event: OutboxEvent): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.appendFileSync(this.filePath, JSON.stringify(event) + "\n");
+    } catch (error) {
+      logger.error("Outbox write failed", {
+        path: this.filePath,
+        event: event.event,
+        message_id: event.message_id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
+
+// Singleton outbox
+export const outbox = new Outbox(path.join(DATA_DIR, "outbox.jsonl"));
+
+export default outbox;
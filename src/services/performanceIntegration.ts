@@ -2,6 +2,7 @@ import { logger } from "./logger";
 import { connectionPool } from "./connectionPool";
 import { commandQueue, CommandPriority } from "./commandQueue";
 import { memoryManager, resultCache } from "./memoryManager";
+import type { QueueMetricsSnapshot } from "./queueMetrics";
 import { executeCommand } from "../helpers/command";
 
 // Performance configuration
@@ -18,6 +19,7 @@ interface PerformanceConfig {
 interface PerformanceMetrics {
   connectionPoolStats: any;
   commandQueueStats: any;
+  queueMetrics: QueueMetricsSnapshot | null; // Kuyruk gecikme histogramları (kuyruk kapalıysa null)
   memoryStats: any;
   averageCommandTime: number;
   totalCommands: number;
@@ -49,6 +51,7 @@ export class PerformanceIntegrationManager {
     this.metrics = {
       connectionPoolStats: {},
       commandQueueStats: {},
+      queueMetrics: null,
       memoryStats: {},
       averageCommandTime: 0,
       totalCommands: 0,
@@ -256,6 +259,7 @@ export class PerformanceIntegrationManager {
       // Command queue metrikleri
       if (this.config.enableCommandQueuing) {
         this.metrics.commandQueueStats = commandQueue.getStats();
+        this.metrics.queueMetrics = commandQueue.getMetricsSnapshot();
       }
 
       // Memory metrikleri
@@ -426,6 +430,9 @@ export class PerformanceIntegrationManager {
       commandQueueStats: this.config.enableCommandQueuing
         ? commandQueue.getStats()
         : { disabled: true },
+      queueMetrics: this.config.enableCommandQueuing
+        ? commandQueue.getMetricsSnapshot()
+        : null,
       memoryStats: this.config.enableMemoryOptimization
         ? memoryManager.getStats()
         : { disabled: true },
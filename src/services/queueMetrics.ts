@@ -0,0 +1,255 @@
+// Histogram özeti (süreler ms)
+export interface HistogramSnapshot {
+  count: number;
+  sum_ms: number;
+  min_ms: number;
+  max_ms: number;
+  mean_ms: number;
+  p50_ms: number;
+  p90_ms: number;
+  p95_ms: number;
+  p99_ms: number;
+  buckets: Array<{ le: number | "+Inf"; count: number }>; // Kümülatif
+}
+
+// Kayan penceredeki tamamlanma hızı
+export interface ThroughputSnapshot {
+  window_ms: number;
+  completed: number;
+  per_minute: number;
+}
+
+// Kuyruk metriklerinin anlık görüntüsü
+export interface QueueMetricsSnapshot {
+  queue_wait: HistogramSnapshot; // Kuyruğa girişten denemenin başlamasına
+  execution: HistogramSnapshot; // Tek denemenin çalışma süresi
+  end_to_end: HistogramSnapshot; // İlk kuyruğa girişten son sonuca (tekrarlar dahil)
+  status_counts: Record<string, number>; // Son durum -> komut sayısı
+  throughput: ThroughputSnapshot;
+}
+
+// Varsayılan histogram sınırları (ms): 5 ms'den 5 dakikaya
+export const DEFAULT_LATENCY_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000,
+  300000,
+];
+
+/**
+ * Sabit aralıklı gecikme histogramı. Bellek kullanımı örnek sayısından
+ * bağımsızdır; yüzdelikler aralık içinde doğrusal tahminle hesaplanır.
+ */
+export class LatencyHistogram {
+  private bounds: number[];
+  private counts: number[];
+  private count: number = 0;
+  private sum: number = 0;
+  private min: number = Infinity;
+  private max: number = 0;
+
+  constructor(bounds: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.bounds = [...bounds].sort((a, b) => a - b);
+    // Son aralık sınırsız (+Inf)
+    this.counts = new Array(this.bounds.length + 1).fill(0);
+  }
+
+  public record(valueMs: number): void {
+    if (!Number.isFinite(valueMs) || valueMs < 0) return;
+
+    let index = this.bounds.findIndex((bound) => valueMs <= bound);
+    if (index === -1) index = this.bounds.length;
+
+    this.counts[index]++;
+    this.count++;
+    this.sum += valueMs;
+    this.min = Math.min(this.min, valueMs);
+    this.max = Math.max(this.max, valueMs);
+  }
+
+  /**
+   * Yüzdelik değeri (0-100), kayıt yoksa 0
+   */
+  public percentile(p: number): number {
+    if (this.count === 0) return 0;
+
+    const rank = (Math.min(100, Math.max(0, p)) / 100) * this.count;
+    let seen = 0;
+
+    for (let i = 0; i < this.counts.length; i++) {
+      if (this.counts[i] === 0) continue;
+      if (seen + this.counts[i] >= rank) {
+        // Aralığın gerçek sınırları gözlenen min/max ile daraltılır
+        const lower = Math.max(this.min, i === 0 ? 0 : this.bounds[i - 1]);
+        const upper = Math.min(
+          this.max,
+          i < this.bounds.length ? this.bounds[i] : this.max,
+        );
+        const fraction = (rank - seen) / this.counts[i];
+        return Math.round(lower + (upper - lower) * fraction);
+      }
+      seen += this.counts[i];
+    }
+
+    return this.max;
+  }
+
+  public snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets = this.counts.map((count, index) => {
+      cumulative += count;
+      return {
+        le:
+          index < this.bounds.length
+            ? this.bounds[index]
+            : ("+Inf" as const),
+        count: cumulative,
+      };
+    });
+
+    return {
+      count: this.count,
+      sum_ms: this.sum,
+      min_ms: this.count > 0 ? this.min : 0,
+      max_ms: this.max,
+      mean_ms: this.count > 0 ? Math.round(this.sum / this.count) : 0,
+      p50_ms: this.percentile(50),
+      p90_ms: this.percentile(90),
+      p95_ms: this.percentile(95),
+      p99_ms: this.percentile(99),
+      buckets,
+    };
+  }
+
+  public reset(): void {
+    this.counts.fill(0);
+    this.count = 0;
+    this.sum = 0;
+    this.min = Infinity;
+    this.max = 0;
+  }
+}
+
+/**
+ * Saniyelik dilimlerle kayan pencere sayacı
+ */
+export class SlidingWindowCounter {
+  private windowMs: number;
+  private slotMs: number;
+  private slots: Array<{ start: number; count: number }>;
+
+  constructor(windowMs: number = 60000, slotMs: number = 1000) {
+    this.windowMs = windowMs;
+    this.slotMs = slotMs;
+    this.slots = Array.from({ length: Math.ceil(windowMs / slotMs) }, () => ({
+      start: -1,
+      count: 0,
+    }));
+  }
+
+  public record(now: number = Date.now()): void {
+    const start = Math.floor(now / this.slotMs) * this.slotMs;
+    const slot = this.slots[(start / this.slotMs) % this.slots.length];
+
+    // Dilim bir önceki turdan kaldıysa sıfırla
+    if (slot.start !== start) {
+      slot.start = start;
+      slot.count = 0;
+    }
+    slot.count++;
+  }
+
+  /**
+   * Son windowMs içindeki kayıt sayısı
+   */
+  public getCount(now: number = Date.now()): number {
+    const oldest = now - this.windowMs;
+    return this.slots.reduce(
+      (total, slot) =>
+        slot.start > oldest && slot.start <= now ? total + slot.count : total,
+      0,
+    );
+  }
+
+  public snapshot(now: number = Date.now()): ThroughputSnapshot {
+    const completed = this.getCount(now);
+    return {
+      window_ms: this.windowMs,
+      completed,
+      per_minute:
+        Math.round((completed / this.windowMs) * 60000 * 100) / 100,
+    };
+  }
+
+  public reset(): void {
+    for (const slot of this.slots) {
+      slot.start = -1;
+      slot.count = 0;
+    }
+  }
+}
+
+/**
+ * Komut kuyruğunun gecikme, durum ve hız metrikleri
+ */
+export class QueueMetrics {
+  private queueWait: LatencyHistogram;
+  private execution: LatencyHistogram;
+  private endToEnd: LatencyHistogram;
+  private statusCounts: Map<string, number> = new Map();
+  private throughput: SlidingWindowCounter;
+
+  constructor(throughputWindowMs: number = 60000) {
+    this.queueWait = new LatencyHistogram();
+    this.execution = new LatencyHistogram();
+    this.endToEnd = new LatencyHistogram();
+    this.throughput = new SlidingWindowCounter(throughputWindowMs);
+  }
+
+  /**
+   * Deneme başladı - kuyrukta bekleme süresi
+   */
+  public recordQueueWait(waitMs: number): void {
+    this.queueWait.record(waitMs);
+  }
+
+  /**
+   * Deneme bitti - çalışma süresi
+   */
+  public recordExecution(durationMs: number): void {
+    this.execution.record(durationMs);
+  }
+
+  /**
+   * Komut son durumuyla bitti (tekrarlar sonrası). Kuyruğa hiç girmeyen
+   * (reddedilen) komutlar için totalMs verilmez.
+   */
+  public recordCompletion(
+    status: string,
+    totalMs?: number,
+    now: number = Date.now(),
+  ): void {
+    this.statusCounts.set(status, (this.statusCounts.get(status) || 0) + 1);
+
+    if (totalMs !== undefined) {
+      this.endToEnd.record(totalMs);
+      this.throughput.record(now);
+    }
+  }
+
+  public snapshot(now: number = Date.now()): QueueMetricsSnapshot {
+    return {
+      queue_wait: this.queueWait.snapshot(),
+      execution: this.execution.snapshot(),
+      end_to_end: this.endToEnd.snapshot(),
+      status_counts: Object.fromEntries(this.statusCounts),
+      throughput: this.throughput.snapshot(now),
+    };
+  }
+
+  public reset(): void {
+    this.queueWait.reset();
+    this.execution.reset();
+    this.endToEnd.reset();
+    this.statusCounts.clear();
+    this.throughput.reset();
+  }
+}
@@ -1,22 +1,15 @@
 import { VPS_ID, CONNECTION_TOKEN, ENDPOINT_URL } from "../config";
-import { executeCommand } from "../helpers/command";
-
-interface CommandMessage {
-  type: "command";
-  data: {
-    command: string;
-    requestId: string;
-  };
-}
-
-interface PingMessage {
-  type: "ping";
-}
-
-type Message = CommandMessage | PingMessage;
+import { executeCommand, toLegacyCommandResult } from "../helpers/command";
+import {
+  parseInboundMessage,
+  InboundMessage,
+  ProtocolValidationError,
+} from "../helpers/protocol";
 
 /**
- * WebSocket ile VPS ve sunucu arasındaki iletişimi sağlayan servis
+ * WebSocket ile VPS ve sunucu arasındaki iletişimi sağlayan servis.
+ * Bu kanal protokol sürümü anlaşmaz; gelen mesajlar doğrulanır ama giden
+ * mesajlar eski (v1) biçimde kalır.
  */
 export class RealtimeService {
   private ws: WebSocket | null = null;
@@ -88,10 +81,15 @@ export class RealtimeService {
         // Mesaj alındığında
         this.ws.onmessage = async (event) => {
           try {
-            const message = JSON.parse(event.data);
+            const message = parseInboundMessage(event.data);
             await this.handleMessage(message);
           } catch (error) {
-            console.error("Mesaj işleme hatası:", error);
+            if (error instanceof ProtocolValidationError) {
+              // Eski sunucu error mesajını tanımaz, sadece loglanır
+              console.error(error.message);
+            } else {
+              console.error("Mesaj işleme hatası:", error);
+            }
           }
         };
 
@@ -325,7 +323,7 @@ export class RealtimeService {
   /**
    * Gelen mesajları işle
    */
-  private async handleMessage(message: any): Promise<void> {
+  private async handleMessage(message: InboundMessage): Promise<void> {
     try {
       console.log(`Mesaj alındı: ${message.type}`);
 
@@ -369,7 +367,7 @@ export class RealtimeService {
 
       // Komut çalıştırma isteği
       if (message.type === "command") {
-        console.log(`Komut alındı: ${message.data.command}`);
+        console.log(`Komut alındı: ${message.data.command_id}`);
 
         // Meşgul durumunu bildir
         this.sendStatus("busy");
@@ -377,18 +375,21 @@ export class RealtimeService {
         // Komutu çalıştır
         const result = await executeCommand(
           message.data.command,
-          message.data.requestId,
+          message.data.command_id,
         );
 
-        // Sonucu gönder
-        this.sendCommandResult(message.data.requestId, result);
+        // Sonucu gönder (bu kanal eski sonuç biçimini kullanır)
+        this.sendCommandResult(
+          message.data.command_id,
+          toLegacyCommandResult(result),
+        );
 
         // Hazır durumunu bildir
         this.sendStatus("ready");
         return;
       }
 
-      console.log(`Bilinmeyen mesaj tipi: ${message.type}`);
+      console.log(`Bu kanalda işlenmeyen mesaj tipi: ${message.type}`);
     } catch (error) {
       console.error("Mesaj işleme hatası:", error);
 
@@ -0,0 +1,562 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+import { DATA_DIR } from "../config";
+import {
+  commandQueue,
+  CommandQueueManager,
+  CommandPriority,
+  CommandCancelledError,
+  QueueRejectedError,
+  ConcurrencyGroup,
+  parseCommandPriority,
+  parseConcurrencyGroup,
+  parseCommandOrigin,
+} from "./commandQueue";
+import {
+  isValidTimezone,
+  nextCronTime,
+  parseCronExpression,
+} from "../helpers/cron";
+import { parseRetryPolicy } from "../helpers/retry";
+import { getCommandPolicy } from "../helpers/policy";
+import type {
+  CommandInput,
+  CommandResult,
+  CommandStatus,
+} from "../helpers/command";
+
+// Önceki çalıştırma sürerken zamanı gelen çalıştırmaya ne yapılacağı
+// skip: atlanır, queue: önceki bitince bir kez çalışır, allow: paralel çalışır
+export type OverlapPolicy = "skip" | "queue" | "allow";
+
+// Sunucunun kaydettiği zamanlama
+export interface ScheduleDefinition {
+  id: string;
+  command: CommandInput;
+  cron?: string;
+  run_at?: string; // Tek seferlik çalıştırma zamanı (ISO 8601)
+  timezone: string;
+  overlap: OverlapPolicy;
+  priority: CommandPriority;
+  retry?: unknown; // Komut mesajındaki retry alanıyla aynı biçim
+  concurrency?: ConcurrencyGroup;
+  origin?: string; // Çalıştırmalar zamanlamayı oluşturan kaynağın kotasına sayılır
+  created_at: string;
+}
+
+// Zamanlamanın çalışma durumu (diskte tanımla birlikte saklanır)
+export interface ScheduleEntry {
+  definition: ScheduleDefinition;
+  next_run_at: string | null;
+  last_run_at?: string;
+  last_status?: string;
+  skipped_runs: number;
+}
+
+// Zamanlanmış çalıştırmanın sonucu (bağlantı yokken tamponda bekler)
+export interface ScheduledRunResult {
+  schedule_id: string;
+  run_id: string;
+  scheduled_for: string;
+  result: CommandResult;
+}
+
+// Sonucu sunucuya iletir, iletilemezse false döner
+type ResultDeliveryHandler = (run: ScheduledRunResult) => boolean;
+
+// Diskteki dosya biçimi
+interface SchedulerState {
+  schedules: ScheduleEntry[];
+  pending_results: ScheduledRunResult[];
+}
+
+const OVERLAP_POLICIES: OverlapPolicy[] = ["skip", "queue", "allow"];
+
+/**
+ * Zamanlama tanımı geçersiz
+ */
+export class ScheduleValidationError extends Error {
+  public readonly errors: string[];
+
+  constructor(scheduleId: string, errors: string[]) {
+    super(
+      `Zamanlama geçersiz (${scheduleId}):\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`,
+    );
+    this.name = "ScheduleValidationError";
+    this.errors = errors;
+  }
+}
+
+/**
+ * schedule_create mesajını doğrula
+ */
+export const parseScheduleDefinition = (raw: any): ScheduleDefinition => {
+  const errors: string[] = [];
+  const id = typeof raw?.schedule_id === "string" ? raw.schedule_id : "";
+
+  if (!id) {
+    errors.push("schedule_id: string olmalı");
+  }
+
+  if (
+    typeof raw?.command !== "string" &&
+    (typeof raw?.command !== "object" || raw?.command === null)
+  ) {
+    errors.push("command: komut metni veya { program, args } olmalı");
+  }
+
+  const hasCron = raw?.cron !== undefined;
+  const hasRunAt = raw?.run_at !== undefined;
+  if (hasCron === hasRunAt) {
+    errors.push("cron veya run_at alanlarından yalnızca biri verilmeli");
+  }
+
+  if (hasCron) {
+    try {
+      parseCronExpression(String(raw.cron));
+    } catch (error) {
+      errors.push(
+        `cron: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  if (hasRunAt && Number.isNaN(Date.parse(raw.run_at))) {
+    errors.push("run_at: ISO 8601 tarih olmalı");
+  }
+
+  const timezone = raw?.timezone ?? "UTC";
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    errors.push(`timezone: bilinmeyen saat dilimi (${timezone})`);
+  }
+
+  const overlap = raw?.overlap ?? "skip";
+  if (!OVERLAP_POLICIES.includes(overlap)) {
+    errors.push(
+      `overlap: ${OVERLAP_POLICIES.join(", ")} değerlerinden biri olmalı`,
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new ScheduleValidationError(id || "?", errors);
+  }
+
+  return {
+    id,
+    command: raw.command,
+    cron: hasCron ? String(raw.cron) : undefined,
+    run_at: hasRunAt ? new Date(raw.run_at).toISOString() : undefined,
+    timezone,
+    overlap,
+    priority: parseCommandPriority(raw.priority),
+    retry: raw.retry,
+    concurrency: parseConcurrencyGroup(
+      raw.concurrency_key,
+      raw.concurrency_limit,
+    ),
+    origin: parseCommandOrigin(raw),
+    created_at: new Date().toISOString(),
+  };
+};
+
+/**
+ * Sunucunun kaydettiği zamanlamaları diskte saklar ve zamanı gelince
+ * komut kuyruğuna ekler. WebSocket bağlı olmasa da çalışır; sonuçlar
+ * tamponlanır ve bağlantı gelince iletilir.
+ */
+export class CommandScheduler {
+  private filePath: string;
+  private queue: CommandQueueManager;
+  private maxPendingResults: number;
+  private schedules: Map<string, ScheduleEntry> = new Map();
+  private pendingResults: ScheduledRunResult[] = [];
+  private running: Map<string, Set<string>> = new Map(); // schedule_id -> run_id'ler
+  private queuedOverlap: Set<string> = new Set(); // Önceki bitince çalışacaklar
+  private deliveryHandler: ResultDeliveryHandler | null = null;
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    filePath: string,
+    queue: CommandQueueManager = commandQueue,
+    maxPendingResults: number = 500,
+  ) {
+    this.filePath = filePath;
+    this.queue = queue;
+    this.maxPendingResults = maxPendingResults;
+  }
+
+  /**
+   * Kayıtlı zamanlamaları ve iletilmemiş sonuçları diskten oku.
+   * Ajan kapalıyken kaçırılan cron çalıştırmaları atlanır; zamanı geçmiş
+   * tek seferlik zamanlamalar bir kez çalıştırılır.
+   */
+  public load(now: Date = new Date()): number {
+    this.schedules.clear();
+    this.pendingResults = [];
+
+    if (!fs.existsSync(this.filePath)) {
+      return 0;
+    }
+
+    try {
+      const state: SchedulerState = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8"),
+      );
+
+      for (const entry of state.schedules || []) {
+        if (entry.definition.cron) {
+          entry.next_run_at = this.computeNextRun(entry.definition, now);
+        }
+        this.schedules.set(entry.definition.id, entry);
+      }
+      this.pendingResults = state.pending_results || [];
+
+      logger.info("Schedules loaded", {
+        path: this.filePath,
+        schedules: this.schedules.size,
+        pending_results: this.pendingResults.length,
+      });
+    } catch (error) {
+      logger.error("Schedule store could not be read", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return this.schedules.size;
+  }
+
+  /**
+   * Zamanlayıcıyı başlat (saniyede bir zamanı gelenleri kontrol eder)
+   */
+  public start(): void {
+    if (this.tickInterval) return;
+    this.tickInterval = setInterval(() => this.tick(), 1000);
+  }
+
+  /**
+   * Zamanlayıcıyı durdur
+   */
+  public stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Zamanlama ekle veya aynı ID'li zamanlamayı güncelle
+   */
+  public upsert(
+    definition: ScheduleDefinition,
+    now: Date = new Date(),
+  ): ScheduleEntry {
+    const entry: ScheduleEntry = {
+      definition,
+      next_run_at: definition.cron
+        ? this.computeNextRun(definition, now)
+        : definition.run_at!,
+      skipped_runs: 0,
+    };
+
+    this.schedules.set(definition.id, entry);
+    this.persist();
+
+    logger.info("Schedule registered", {
+      schedule_id: definition.id,
+      cron: definition.cron,
+      run_at: definition.run_at,
+      timezone: definition.timezone,
+      overlap: definition.overlap,
+      next_run_at: entry.next_run_at,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Zamanlamayı sil (çalışmakta olan çalıştırmalar tamamlanır)
+   */
+  public remove(scheduleId: string): boolean {
+    if (!this.schedules.delete(scheduleId)) return false;
+
+    this.queuedOverlap.delete(scheduleId);
+    this.persist();
+    logger.info("Schedule removed", { schedule_id: scheduleId });
+    return true;
+  }
+
+  /**
+   * Zamanlamaların özeti
+   */
+  public list() {
+    return Array.from(this.schedules.values()).map((entry) => ({
+      schedule_id: entry.definition.id,
+      command: entry.definition.command,
+      cron: entry.definition.cron,
+      run_at: entry.definition.run_at,
+      timezone: entry.definition.timezone,
+      overlap: entry.definition.overlap,
+      next_run_at: entry.next_run_at,
+      last_run_at: entry.last_run_at,
+      last_status: entry.last_status,
+      skipped_runs: entry.skipped_runs,
+      running: this.running.get(entry.definition.id)?.size || 0,
+    }));
+  }
+
+  /**
+   * Sonuç iletme fonksiyonunu ayarla ve bekleyen sonuçları göndermeyi dene
+   */
+  public setDeliveryHandler(handler: ResultDeliveryHandler | null): void {
+    this.deliveryHandler = handler;
+    this.flushResults();
+  }
+
+  /**
+   * Tampondaki sonuçları sırayla ilet, iletilemeyen ilk sonuçta dur
+   */
+  public flushResults(): number {
+    if (!this.deliveryHandler || this.pendingResults.length === 0) {
+      return 0;
+    }
+
+    let delivered = 0;
+    while (this.pendingResults.length > 0) {
+      if (!this.deliveryHandler(this.pendingResults[0])) break;
+      this.pendingResults.shift();
+      delivered++;
+    }
+
+    if (delivered > 0) {
+      logger.info("Scheduled run results delivered", {
+        delivered,
+        remaining: this.pendingResults.length,
+      });
+      this.persist();
+    }
+
+    return delivered;
+  }
+
+  /**
+   * İletilmeyi bekleyen sonuç sayısı
+   */
+  public getPendingResultCount(): number {
+    return this.pendingResults.length;
+  }
+
+  /**
+   * Zamanı gelen zamanlamaları kuyruğa ekle
+   */
+  public tick(now: Date = new Date()): void {
+    for (const entry of this.schedules.values()) {
+      if (
+        !entry.next_run_at ||
+        Date.parse(entry.next_run_at) > now.getTime()
+      ) {
+        continue;
+      }
+
+      const scheduledFor = entry.next_run_at;
+      const { definition } = entry;
+
+      // Tek seferlik zamanlama tetiklenince silinir
+      if (!definition.cron) {
+        this.schedules.delete(definition.id);
+        this.fire(entry, scheduledFor);
+        this.persist();
+        continue;
+      }
+
+      // Sonraki çalışma zamanı, bu çalıştırmanın akıbetinden bağımsız ilerler
+      entry.next_run_at = this.computeNextRun(definition, now);
+
+      if (this.isRunning(definition.id) && definition.overlap !== "allow") {
+        if (definition.overlap === "queue") {
+          this.queuedOverlap.add(definition.id);
+        } else {
+          entry.skipped_runs++;
+          logger.warn("Scheduled run skipped, previous run still active", {
+            schedule_id: definition.id,
+            scheduled_for: scheduledFor,
+          });
+        }
+      } else {
+        this.fire(entry, scheduledFor);
+      }
+
+      this.persist();
+    }
+  }
+
+  /**
+   * Dead-letter'a düşen çalıştırmayı aynı run_id ile tekrar kuyruğa ekle,
+   * sonucu yine schedule_result olarak iletilir. Zamanlama silinmişse
+   * (tetiklenmiş tek seferlik zamanlamalar dahil) false döner.
+   */
+  public replayRun(scheduleId: string, scheduledFor: string): boolean {
+    const entry = this.schedules.get(scheduleId);
+    if (!entry || Number.isNaN(Date.parse(scheduledFor))) {
+      return false;
+    }
+
+    this.fire(entry, scheduledFor);
+    this.persist();
+    return true;
+  }
+
+  private isRunning(scheduleId: string): boolean {
+    return (this.running.get(scheduleId)?.size || 0) > 0;
+  }
+
+  private computeNextRun(
+    definition: ScheduleDefinition,
+    after: Date,
+  ): string | null {
+    const next = nextCronTime(
+      parseCronExpression(definition.cron!),
+      after,
+      definition.timezone,
+    );
+    return next ? next.toISOString() : null;
+  }
+
+  /**
+   * Çalıştırmayı komut kuyruğuna ekle
+   */
+  private fire(entry: ScheduleEntry, scheduledFor: string): void {
+    const { definition } = entry;
+    const runId = `${definition.id}:${Date.parse(scheduledFor)}`;
+
+    const runs = this.running.get(definition.id) || new Set<string>();
+    runs.add(runId);
+    this.running.set(definition.id, runs);
+    entry.last_run_at = new Date().toISOString();
+
+    logger.info("Scheduled run started", {
+      schedule_id: definition.id,
+      run_id: runId,
+      scheduled_for: scheduledFor,
+    });
+
+    const finish = (result: CommandResult) => {
+      runs.delete(runId);
+      entry.last_status = result.status;
+      this.bufferResult({
+        schedule_id: definition.id,
+        run_id: runId,
+        scheduled_for: scheduledFor,
+        result,
+      });
+
+      // Sırada bekleyen (overlap: queue) çalıştırmayı başlat
+      if (
+        this.queuedOverlap.delete(definition.id) &&
+        this.schedules.has(definition.id)
+      ) {
+        this.fire(entry, new Date().toISOString());
+      }
+      this.persist();
+    };
+
+    this.queue
+      .addCommand(definition.command, {
+        id: runId,
+        priority: definition.priority,
+        retry: parseRetryPolicy(definition.retry),
+        concurrency: definition.concurrency,
+        origin: definition.origin,
+        // Zamanlama diskte kalıcı, yarıda kalan çalıştırma tekrar edilmez
+        replay: "discard",
+        metadata: {
+          source: "schedule",
+          schedule_id: definition.id,
+          scheduled_for: scheduledFor,
+        },
+        onSuccess: finish,
+        onError: (error) => finish(this.failureResult(error)),
+      })
+      .catch((error) => finish(this.failureResult(error)));
+  }
+
+  /**
+   * Kuyruğa alınamayan veya iptal edilen çalıştırma için sonuç
+   */
+  private failureResult(error: unknown): CommandResult {
+    const now = new Date().toISOString();
+    const status: CommandStatus =
+      error instanceof CommandCancelledError
+        ? "cancelled"
+        : error instanceof QueueRejectedError
+          ? "rejected"
+          : "internal_error";
+
+    return {
+      success: false,
+      status,
+      stdout: "",
+      stderr: "",
+      exit_code: null,
+      signal: null,
+      error: error instanceof Error ? error.message : String(error),
+      started_at: now,
+      finished_at: now,
+      duration_ms: 0,
+      chunk_count: 0,
+      policy_revision: getCommandPolicy().revision,
+    };
+  }
+
+  private bufferResult(run: ScheduledRunResult): void {
+    this.pendingResults.push(run);
+
+    if (this.pendingResults.length > this.maxPendingResults) {
+      const dropped = this.pendingResults.shift()!;
+      logger.warn("Scheduled result buffer full, oldest result dropped", {
+        schedule_id: dropped.schedule_id,
+        run_id: dropped.run_id,
+        max_pending_results: this.maxPendingResults,
+      });
+    }
+
+    this.flushResults();
+  }
+
+  private persist(): void {
+    const state: SchedulerState = {
+      schedules: Array.from(this.schedules.values()),
+      pending_results: this.pendingResults,
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(state));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error("Schedule store write failed", {
+        path: this.filePath,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Cleanup
+   */
+  public async cleanup(): Promise<void> {
+    this.stop();
+    this.persist();
+  }
+}
+
+// Singleton scheduler instance
+export const commandScheduler = new CommandScheduler(
+  path.join(DATA_DIR, "schedules.json"),
+);
+
+export default commandScheduler;
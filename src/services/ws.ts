@@ -1,60 +1,232 @@
 import WebSocket from "ws";
-import { CONNECTION_TOKEN, VPS_ID, ENDPOINT_URL, ROOM_ID } from "../config";
-import { executeCommand } from "../helpers/command";
+import {
+  CONNECTION_TOKEN,
+  VPS_ID,
+  ENDPOINT_URL,
+  ROOM_ID,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+  RECONNECT_MAX_ATTEMPTS,
+  RECONNECT_COOLDOWN_MS,
+} from "../config";
+import { computeBackoffDelay, BackoffOptions } from "../helpers/backoff";
+import {
+  describeCommand,
+  toLegacyCommandResult,
+  CommandResult,
+  CommandStatus,
+} from "../helpers/command";
+import { getCommandPolicy } from "../helpers/policy";
+import { parseRetryPolicy } from "../helpers/retry";
+import {
+  openSession,
+  writeSession,
+  resizeSession,
+  closeSession,
+  closeAllSessions,
+} from "../helpers/session";
 import { logger } from "./logger";
+import {
+  commandQueue,
+  parseCommandPriority,
+  parseConcurrencyGroup,
+  parseCommandOrigin,
+  CommandCancelledError,
+  QueueRejectedError,
+} from "./commandQueue";
+import {
+  commandJournal,
+  parseReplayPolicy,
+  JournalRecovery,
+} from "./commandJournal";
+import { idempotency } from "./idempotency";
+import { deadLetterStore } from "./deadLetter";
+import {
+  commandScheduler,
+  parseScheduleDefinition,
+  ScheduleValidationError,
+} from "./scheduler";
+import { jobRunner, parseJobDefinition, JobValidationError } from "./jobRunner";
+import { outbox, Outbox } from "./outbox";
+import {
+  isReliableMessageType,
+  negotiateProtocolVersion,
+  parseInboundMessage,
+  toProtocolErrorMessage,
+  AuthSuccessMessage,
+  CommandMessage,
+  InboundMessage,
+  JobMessage,
+  ProtocolValidationError,
+  QueueDrainMessage,
+  ScheduleCreateMessage,
+  SessionOpenMessage,
+  ACK_PROTOCOL_VERSION,
+  ERROR_REPLY_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../helpers/protocol";
+
+// Bağlantı durumu
+// idle -> connecting -> authenticating -> ready; bağlantı koparsa
+// backing_off üzerinden tekrar connecting, disconnect() ile stopped
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "authenticating"
+  | "ready"
+  | "backing_off"
+  | "stopped";
+
+// Durum geçişi (dinleyicilere iletilir ve loglanır)
+export interface ConnectionStateChange {
+  from: ConnectionState;
+  to: ConnectionState;
+  reason: string;
+  attempt: number; // Art arda başarısız bağlantı denemesi
+  delay_ms?: number; // backing_off: sonraki denemeye kadar bekleme
+  at: string;
+}
+
+type ConnectionStateListener = (change: ConnectionStateChange) => void;
+
+// Bağlantı ayarları (varsayılanlar ortam değişkenlerinden)
+export interface ConnectionConfig {
+  endpointUrl: string;
+  reconnectBackoff: BackoffOptions;
+  maxReconnectAttempts: number; // Bu kadar art arda denemeden sonra devre açılır
+  reconnectCooldownMs: number; // Devre açıkken denemeler arası bekleme
+  random: () => number; // Jitter için rastgele kaynak
+}
 
 export class WebSocketClient {
   private ws: WebSocket | null = null;
   public isConnected: boolean = false;
-  private reconnectInterval: number = 5000; // 5 saniye
+  private state: ConnectionState = "idle";
+  private stateListeners: Set<ConnectionStateListener> = new Set();
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private connectTimeout: NodeJS.Timeout | null = null;
   private pingInterval: NodeJS.Timeout | null = null;
   private roomId: string = ROOM_ID || ""; // Oda ID'sini değişkenden al
   private clientId: string = ""; // Client ID'yi sakla
-  private reconnectCount: number = 0;
-  private maxReconnectAttempts: number = 10;
+  private reconnectCount: number = 0; // ready olana kadar art arda deneme
   private lastPingTime: number = 0;
   private lastPongTime: number = 0;
   private connectionHealthCheckInterval: NodeJS.Timeout | null = null;
-  private manualDisconnect: boolean = false; // Bağlantının manuel olarak kapatıldığını belirtmek için
+  private protocolVersion: number = 1; // Sunucuyla anlaşılan protokol sürümü (welcome ile belirlenir)
+  private unsubscribeQueueActivity: (() => void) | null = null;
+  private pendingRecovery: JournalRecovery | null = null; // İlk auth_success'te işlenir
+  private authenticated: boolean = false; // auth_success alındı mı (bağlantı başına)
+  private resumeToken: string | null = null; // auth_success ile alınır, yeniden bağlanınca sunulur
+  private lastSeq: number = 0; // Oturumda işlenen son sunucu mesajının sıra numarası
+  private config: ConnectionConfig;
+  private outbox: Outbox;
+
+  constructor(
+    config?: Partial<ConnectionConfig>,
+    messageOutbox: Outbox = outbox,
+  ) {
+    this.config = {
+      endpointUrl: ENDPOINT_URL,
+      reconnectBackoff: {
+        baseDelayMs: RECONNECT_BASE_DELAY_MS,
+        maxDelayMs: RECONNECT_MAX_DELAY_MS,
+        multiplier: 2,
+        jitter: "full",
+      },
+      maxReconnectAttempts: RECONNECT_MAX_ATTEMPTS,
+      reconnectCooldownMs: RECONNECT_COOLDOWN_MS,
+      random: Math.random,
+      ...config,
+    };
+    this.outbox = messageOutbox;
+
+    // busy/ready durumu tek tek komutlara değil kuyruğun doluluğuna göre bildirilir
+    this.unsubscribeQueueActivity = commandQueue.onActivityChange((active) => {
+      this.sendStatus(active ? "busy" : "ready");
+    });
+
+    // Zamanlanmış çalıştırma sonuçları kimlik doğrulanmadan gönderilmez,
+    // gönderilemeyenler zamanlayıcının tamponunda bekler
+    commandScheduler.setDeliveryHandler(
+      (run) =>
+        this.authenticated &&
+        this.safeSend({
+          type: "schedule_result",
+          data: {
+            schedule_id: run.schedule_id,
+            run_id: run.run_id,
+            scheduled_for: run.scheduled_for,
+            ...run.result,
+            timestamp: new Date().toISOString(),
+          },
+        }),
+    );
+  }
+
+  /**
+   * Bağlantı durumu
+   */
+  public getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Durum geçişlerini dinle, aboneliği kaldıran fonksiyon döner
+   */
+  public onStateChange(listener: ConnectionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
 
   /**
    * WebSocket bağlantısını başlat
    */
   public async connect(): Promise<boolean> {
     try {
-      // Eğer manuel disconnect yapıldıysa, yeniden bağlanmayı durdur
-      if (this.manualDisconnect) {
+      // disconnect() sonrası yeniden bağlanılmaz
+      if (this.state === "stopped") {
         console.log("Manuel disconnect sonrası yeniden bağlanma devre dışı");
         return false;
       }
 
+      // Elle çağrıldıysa bekleyen yeniden bağlanma denemesi iptal edilir
+      this.clearReconnectTimer();
+      this.setState(
+        "connecting",
+        this.reconnectCount > 0 ? "reconnect" : "start",
+      );
+
       return new Promise((resolve) => {
-        console.log(`WebSocket bağlantısı kuruluyor: ${ENDPOINT_URL}`);
+        console.log(
+          `WebSocket bağlantısı kuruluyor: ${this.config.endpointUrl}`,
+        );
 
         // Eğer zaten bağlı ise önce kapat
-        if (this.ws) {
-          try {
-            this.ws.close();
-          } catch (e) {
-            // Hata yok sayılabilir
-          }
-          this.ws = null;
-        }
+        this.closeSocket();
 
-        // WebSocket bağlantısı kur
-        this.ws = new WebSocket(ENDPOINT_URL);
+        // WebSocket bağlantısı kur. Yerine yenisi kurulan soketin olayları
+        // yok sayılır, böylece eski soketin close olayı yeniden bağlanma
+        // tetiklemez.
+        const socket = new WebSocket(this.config.endpointUrl);
+        this.ws = socket;
 
         // Bağlantı açıldığında
-        this.ws.onopen = () => {
+        socket.onopen = () => {
+          if (this.ws !== socket) return;
+
+          this.clearConnectTimeout();
           logger.connectionEvent("connect", {
-            endpoint: ENDPOINT_URL,
+            endpoint: this.config.endpointUrl,
             attempt_count: this.reconnectCount + 1,
             client_id: this.clientId,
           });
 
           this.isConnected = true;
-          this.reconnectCount = 0; // Başarılı bağlantıda sayaç sıfırla
+          this.lastPingTime = 0;
+          this.lastPongTime = 0;
+          this.setState("authenticating", "socket_open");
 
           // Welcome mesajını bekle, auth gönderme işlemini onmessage içerisinde yapacağız
           logger.debug("Waiting for welcome message");
@@ -66,25 +238,18 @@ export class WebSocketClient {
         };
 
         // Bağlantı kapandığında
-        this.ws.onclose = (event) => {
-          console.log(
-            `WebSocket bağlantısı kapandı (Kod: ${event.code}), yeniden bağlanılacak...`,
-          );
-          this.isConnected = false;
-          this.stopPingInterval();
-          this.stopHealthCheck();
+        socket.onclose = (event) => {
+          if (this.ws !== socket) return;
 
-          // Eğer manuel disconnect yapılmadıysa yeniden bağlan
-          if (!this.manualDisconnect) {
-            // Yeniden bağlanma
-            this.scheduleReconnect();
-          } else {
-            console.log("Manuel disconnect yapıldı, yeniden bağlanılmayacak");
-          }
+          console.log(`WebSocket bağlantısı kapandı (Kod: ${event.code})`);
+          this.handleConnectionLost(`close_${event.code}`);
+          resolve(false);
         };
 
         // Hata oluştuğunda
-        this.ws.onerror = (error) => {
+        socket.onerror = (error) => {
+          if (this.ws !== socket) return;
+
           console.error("WebSocket bağlantı hatası:", error);
 
           // İlk bağlantı denemesi başarısız olduysa
@@ -94,27 +259,39 @@ export class WebSocketClient {
         };
 
         // Mesaj alındığında
-        this.ws.onmessage = async (event) => {
+        socket.onmessage = async (event) => {
+          if (this.ws !== socket) return;
+
           try {
-            const message = JSON.parse(event.data.toString());
+            const message = parseInboundMessage(event.data.toString());
+            // Devam ettirilen oturumda tekrar gönderilen mesajlar zaten işlendi
+            if (message.seq !== undefined && this.authenticated) {
+              if (message.seq <= this.lastSeq) {
+                logger.debug("Duplicate message skipped", {
+                  type: message.type,
+                  seq: message.seq,
+                  last_seq: this.lastSeq,
+                });
+                return;
+              }
+              this.lastSeq = message.seq;
+            }
             await this.handleMessage(message);
           } catch (error) {
-            console.error("Mesaj işleme hatası:", error);
+            if (error instanceof ProtocolValidationError) {
+              this.rejectInvalidMessage(error);
+            } else {
+              console.error("Mesaj işleme hatası:", error);
+            }
           }
         };
 
         // Bağlantı zaman aşımı
-        setTimeout(() => {
-          if (this.ws && this.ws.readyState !== WebSocket.OPEN) {
+        this.connectTimeout = setTimeout(() => {
+          this.connectTimeout = null;
+          if (this.ws === socket && socket.readyState !== WebSocket.OPEN) {
             console.log("WebSocket bağlantı zaman aşımı");
-            if (this.ws) {
-              try {
-                this.ws.close();
-              } catch (e) {
-                // Hata yok sayılabilir
-              }
-            }
-            this.isConnected = false;
+            this.handleConnectionLost("connect_timeout");
             resolve(false);
           }
         }, 10000); // 10 saniye zaman aşımı
@@ -126,35 +303,36 @@ export class WebSocketClient {
   }
 
   /**
-   * Bağlantıyı kapat
+   * Bağlantıyı kapat, yeniden bağlanma yapılmaz
    */
-  public disconnect(manual: boolean = true): void {
-    this.manualDisconnect = manual;
+  public disconnect(): void {
+    this.setState("stopped", "disconnect");
+    this.authenticated = false;
     this.stopPingInterval();
     this.stopHealthCheck();
+    this.clearConnectTimeout();
+    this.clearReconnectTimer();
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
+    // Açık terminal oturumlarını da kapat
+    closeAllSessions("disconnect");
+    this.unsubscribeQueueActivity?.();
+    this.unsubscribeQueueActivity = null;
+    commandScheduler.setDeliveryHandler(null);
 
-    if (this.ws) {
+    const socket = this.ws;
+    if (socket) {
       try {
         // Bağlantı durumuna göre mesaj gönder
-        if (this.isConnected && this.ws.readyState === WebSocket.OPEN) {
+        if (this.isConnected && socket.readyState === WebSocket.OPEN) {
           this.sendStatus("disconnected");
+          this.ws = null;
+          this.isConnected = false;
 
           // Bağlantıyı temiz kapatmak için kısa bir gecikme
-          setTimeout(() => {
-            if (this.ws) this.ws.close();
-            this.ws = null;
-            this.isConnected = false;
-          }, 500);
+          setTimeout(() => socket.close(), 500);
         } else {
           // Doğrudan kapat
-          this.ws.close();
-          this.ws = null;
-          this.isConnected = false;
+          this.closeSocket();
         }
       } catch (error) {
         console.error("Bağlantı kapatma hatası:", error);
@@ -163,17 +341,97 @@ export class WebSocketClient {
         this.isConnected = false;
       }
 
+      logger.connectionEvent("disconnect", { client_id: this.clientId });
       console.log("WebSocket bağlantısı kapatıldı");
     }
   }
 
+  /**
+   * Bağlantı koptu veya sağlıksız: temizle ve tek bir yeniden bağlanma planla.
+   * close, sağlık kontrolü ve ping aynı kopmayı bildirse de sadece ilki işlenir.
+   */
+  private handleConnectionLost(reason: string): void {
+    if (this.state === "stopped" || this.state === "backing_off") return;
+
+    this.authenticated = false;
+    this.stopPingInterval();
+    this.stopHealthCheck();
+    this.clearConnectTimeout();
+    this.closeSocket();
+    this.scheduleReconnect(reason);
+  }
+
+  /**
+   * Mevcut soketi kapat; kapatılan soketin olayları artık dikkate alınmaz
+   */
+  private closeSocket(): void {
+    const socket = this.ws;
+    this.ws = null;
+    this.isConnected = false;
+    if (!socket) return;
+
+    try {
+      socket.close();
+    } catch (e) {
+      // Hata yok sayılabilir
+    }
+  }
+
+  private setState(
+    to: ConnectionState,
+    reason: string,
+    delayMs?: number,
+  ): void {
+    if (this.state === to) return;
+
+    const change: ConnectionStateChange = {
+      from: this.state,
+      to,
+      reason,
+      attempt: this.reconnectCount,
+      delay_ms: delayMs,
+      at: new Date().toISOString(),
+    };
+    this.state = to;
+
+    logger.connectionEvent("state_change", change);
+    for (const listener of this.stateListeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.warn("Connection state listener error", {
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
   /**
    * Güvenli mesaj gönderme
    */
   private safeSend(data: any): boolean {
+    // Her mesaja ID ver; tekrar gönderilen mesajlar ilk ID'sini korur
+    if (data && typeof data === "object" && !data.message_id) {
+      data.message_id = this.outbox.nextMessageId();
+    }
+
+    // Onay destekleyen sunucuda önemli mesajlar ack gelene kadar outbox'ta
+    // tutulur (gönderim başarısız olsa bile)
+    const reliable = isReliableMessageType(data?.type);
+    const awaitAck = reliable && this.protocolVersion >= ACK_PROTOCOL_VERSION;
+    if (awaitAck && !this.outbox.has(data.message_id)) {
+      this.outbox.add(data);
+    }
+
+    // Sunucu kimliğimizi doğrulamadan önemli mesajlar gönderilmez; outbox'ta
+    // bekleyip auth_success ile sırayla gider
+    if (reliable && !this.authenticated) {
+      return this.bufferUnsent(data, reliable);
+    }
+
     if (!this.isConnected || !this.ws) {
       console.log("WebSocket bağlı değil, mesaj gönderilemiyor");
-      return false;
+      return this.bufferUnsent(data, reliable);
     }
 
     if (this.ws.readyState !== WebSocket.OPEN) {
@@ -189,12 +447,10 @@ export class WebSocketClient {
         console.log(
           "WebSocket kapalı veya kapanıyor, yeniden bağlanmayı deneyeceğiz",
         );
-        this.isConnected = false;
-        this.manualDisconnect = false; // Yeniden bağlanmayı etkinleştir
-        this.scheduleReconnect();
+        this.handleConnectionLost("socket_closed");
       }
 
-      return false;
+      return this.bufferUnsent(data, reliable);
     }
 
     try {
@@ -211,6 +467,7 @@ export class WebSocketClient {
 
       const jsonStr = JSON.stringify(data);
       this.ws.send(jsonStr);
+      this.outbox.markSent(data.message_id, awaitAck);
 
       // Eğer ping mesajı gönderiyorsak, son ping zamanını güncelle
       if (data && data.type === "ping") {
@@ -220,7 +477,37 @@ export class WebSocketClient {
       return true;
     } catch (error) {
       console.error("Mesaj gönderme hatası:", error);
-      return false;
+      return this.bufferUnsent(data, reliable);
+    }
+  }
+
+  /**
+   * Gönderilemeyen önemli mesajı bağlantı kurulunca gönderilmek üzere
+   * outbox'a al. Mesaj bekletildiyse true döner (gönderilmiş sayılır).
+   */
+  private bufferUnsent(data: any, reliable: boolean): boolean {
+    if (!reliable) return false;
+
+    if (!this.outbox.has(data.message_id)) {
+      this.outbox.add(data);
+      console.log(`Mesaj bağlantı bekliyor (outbox): ${data.type}`);
+    }
+    return true;
+  }
+
+  /**
+   * Bekleyen (gönderilemeyen veya onaylanmamış) mesajları ilk ID'leriyle
+   * sırayla tekrar gönder
+   */
+  private flushOutbox(): void {
+    const pending = this.outbox.getPending();
+    if (pending.length === 0) return;
+
+    logger.info("Flushing outbox", {
+      count: pending.length,
+    });
+    for (const entry of pending) {
+      this.safeSend(entry.message);
     }
   }
 
@@ -240,8 +527,7 @@ export class WebSocketClient {
         console.log(
           `WebSocket sağlıklı değil (Durum: ${this.ws.readyState}), yeniden bağlanma başlatılıyor`,
         );
-        this.disconnect(false); // Manuel olmayan disconnect
-        this.scheduleReconnect();
+        this.handleConnectionLost("unhealthy_socket");
         return;
       }
 
@@ -255,13 +541,12 @@ export class WebSocketClient {
         console.log(
           `Ping-pong zaman aşımı, ${pingTimeout}ms içinde yanıt alınamadı, yeniden bağlanma başlatılıyor`,
         );
-        this.disconnect(false); // Manuel olmayan disconnect
-        this.scheduleReconnect();
+        this.handleConnectionLost("ping_timeout");
         return;
       }
 
       // Ekstra ping gönder (açık kalsın diye)
-      this.safeSend({ type: "ping" });
+      this.safeSend({ type: "ping", data: { last_seq: this.lastSeq } });
     }, 15000); // 15 saniyede bir kontrol et
   }
 
@@ -295,10 +580,35 @@ export class WebSocketClient {
         token: CONNECTION_TOKEN,
         clientId: this.clientId,
         room_id: this.roomId, // Oda ID'sini ekle
+        protocol_version: this.protocolVersion,
+        protocol_versions: SUPPORTED_PROTOCOL_VERSIONS,
+        // Önceki oturum varsa sunucudan devam ettirmesini iste
+        resume: this.resumeToken ? this.getResumeState() : undefined,
       },
     });
   }
 
+  /**
+   * Oturumu devam ettirmek için sunucuya sunulan durum: token, işlenen son
+   * sıra numarası ve bu ajanın hâlâ sahip olduğu komutlar
+   */
+  private getResumeState() {
+    return {
+      token: this.resumeToken,
+      last_seq: this.lastSeq,
+      commands: commandJournal
+        .getPending()
+        .filter((entry) => entry.metadata?.source === "websocket")
+        .map((entry) => ({
+          command_id: entry.id,
+          status: entry.started ? "running" : "queued",
+        })),
+      unacked_message_ids: this.outbox
+        .getPending()
+        .map((entry) => entry.message_id),
+    };
+  }
+
   /**
    * Durum mesajı gönder
    */
@@ -319,39 +629,52 @@ export class WebSocketClient {
   }
 
   /**
-   * Yeniden bağlanma zamanlayıcısı
+   * Yeniden bağlanma zamanlayıcısı. Bekleme full-jitter üsteldir; art arda
+   * maxReconnectAttempts denemeden sonra devre açılır ve her deneme
+   * arasında reconnectCooldownMs beklenir (bağlantı kurulana kadar).
    */
-  private scheduleReconnect(): void {
-    if (!this.reconnectTimeout) {
-      this.reconnectCount++;
+  private scheduleReconnect(reason: string): void {
+    if (this.state === "stopped" || this.reconnectTimeout) return;
 
-      // Maksimum deneme sayısını geçti mi kontrol et
-      if (this.reconnectCount > this.maxReconnectAttempts) {
-        console.log(
-          `Maksimum yeniden bağlanma denemesi aşıldı (${this.maxReconnectAttempts}). Bir süre bekleyip tekrar denenecek.`,
+    this.reconnectCount++;
+    const { maxReconnectAttempts } = this.config;
+    const circuitOpen = this.reconnectCount > maxReconnectAttempts;
+    const delay = circuitOpen
+      ? this.config.reconnectCooldownMs
+      : computeBackoffDelay(
+          this.reconnectCount,
+          this.config.reconnectBackoff,
+          this.config.random,
         );
-        // Daha uzun bir bekleme süresi koy
-        setTimeout(() => {
-          this.reconnectCount = 0; // Sayacı sıfırla
-          this.connect(); // Tekrar dene
-        }, 60000); // 1 dakika bekle
-        return;
-      }
 
-      // Artan bekleme süresi (exponential backoff)
-      const delay = Math.min(
-        30000,
-        this.reconnectInterval * Math.pow(1.5, this.reconnectCount - 1),
+    if (circuitOpen) {
+      console.log(
+        `Maksimum yeniden bağlanma denemesi aşıldı (${maxReconnectAttempts}). ${delay}ms sonra tekrar denenecek.`,
       );
-
+    } else {
       console.log(
-        `Yeniden bağlanma planlandı (${this.reconnectCount}/${this.maxReconnectAttempts}). ${delay}ms sonra denenecek.`,
+        `Yeniden bağlanma planlandı (${this.reconnectCount}/${maxReconnectAttempts}). ${delay}ms sonra denenecek.`,
       );
+    }
 
-      this.reconnectTimeout = setTimeout(async () => {
-        this.reconnectTimeout = null;
-        await this.connect();
-      }, delay);
+    this.setState("backing_off", circuitOpen ? "circuit_open" : reason, delay);
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private clearConnectTimeout(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = null;
     }
   }
 
@@ -367,14 +690,13 @@ export class WebSocketClient {
         this.ws &&
         this.ws.readyState === WebSocket.OPEN
       ) {
-        // Her 30 saniyede bir ping gönder
-        this.safeSend({ type: "ping" });
+        // Her 30 saniyede bir ping gönder, işlenen son sıra numarasını bildir
+        this.safeSend({ type: "ping", data: { last_seq: this.lastSeq } });
       } else if (this.ws && this.ws.readyState !== WebSocket.OPEN) {
         console.log(
           "Ping interval: WebSocket hazır değil, yeniden bağlanmayı deneyeceğiz",
         );
-        this.disconnect(false); // Manuel olmayan disconnect
-        this.scheduleReconnect();
+        this.handleConnectionLost("socket_not_open");
       }
     }, 30000);
   }
@@ -392,11 +714,13 @@ export class WebSocketClient {
   /**
    * Mesajları işle
    */
-  private async handleMessage(message: any): Promise<void> {
+  private async handleMessage(message: InboundMessage): Promise<void> {
     console.log(`Mesaj alındı: ${message.type}`);
+    // Yanıtlar (sonradan gelen sonuçlar dahil) bu ID'yi in_reply_to alanında taşır
+    const replyTo = message.message_id;
 
     switch (message.type) {
-      case "welcome":
+      case "welcome": {
         // Welcome mesajı alındı, auth gönder
         console.log("Welcome mesajı alındı, Oda ID:", message.data?.roomId);
         if (message.data?.roomId) {
@@ -406,13 +730,34 @@ export class WebSocketClient {
           this.clientId = message.data.clientId;
           console.log("Client ID alındı:", this.clientId);
         }
+        // Sunucu sürüm bildirmiyorsa eski protokol (v1) kullanılır
+        const version = negotiateProtocolVersion(message.data);
+        if (version === null) {
+          console.error(
+            "Sunucuyla ortak protokol sürümü yok, bağlantı kapatılıyor",
+          );
+          this.sendProtocolError(
+            new ProtocolValidationError(
+              "unsupported_version",
+              [
+                `desteklenen sürümler: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`,
+              ],
+              "welcome",
+            ),
+            replyTo,
+          );
+          this.disconnect();
+          break;
+        }
+        this.protocolVersion = version;
         // Auth mesajı gönder
         this.sendAuthMessage();
         break;
+      }
 
       case "ping":
         // Ping mesajına pong ile yanıt ver
-        this.safeSend({ type: "pong" });
+        this.safeSend({ type: "pong", in_reply_to: replyTo });
         break;
 
       case "pong":
@@ -420,90 +765,931 @@ export class WebSocketClient {
         this.lastPongTime = Date.now();
         break;
 
-      case "auth_success":
+      case "auth_success": {
         // Auth başarılı, durum mesajı gönder
         console.log("Kimlik doğrulama başarılı!");
+        this.authenticated = true;
+        this.reconnectCount = 0; // Başarılı bağlantıda sayaç sıfırla
+
+        // Sunucu sürümü kesinleştirdiyse (desteklediğimiz sürece) onu kullan
+        const confirmed = message.data?.protocol_version;
+        if (confirmed !== undefined && confirmed !== this.protocolVersion) {
+          if (SUPPORTED_PROTOCOL_VERSIONS.includes(confirmed)) {
+            this.protocolVersion = confirmed;
+          } else {
+            logger.warn("Server confirmed an unsupported protocol version", {
+              server_version: confirmed,
+              negotiated_version: this.protocolVersion,
+            });
+          }
+        }
+        this.handleResumption(message.data);
+        this.setState(
+          "ready",
+          message.data?.resumed ? "session_resumed" : "authenticated",
+        );
         this.sendStatus("connected");
 
+        // Bağlantı yokken kuyrukta kalan komutlar varsa meşgul olduğumuzu bildir
+        if (commandQueue.isActive()) {
+          this.sendStatus("busy");
+        }
+
+        // Bağlantı yokken biriken ve onaylanmamış mesajlar yeni sonuçlardan
+        // önce gider
+        this.flushOutbox();
+
+        // Önceki çalışmadan kalan işleri sunucu bizi tanıdıktan sonra ele al
+        this.processRecovery();
+
+        // Bağlantı yokken biriken zamanlanmış çalıştırma sonuçlarını gönder
+        commandScheduler.flushResults();
+
         // Ping interval başlat
         this.startPingInterval();
         break;
+      }
 
       case "auth_error":
         // Auth hata, bağlantıyı kapat
         console.error("Kimlik doğrulama hatası:", message.data?.message);
+        logger.connectionEvent("auth_failed", {
+          message: message.data?.message,
+        });
         this.disconnect();
         break;
 
       case "command":
-        // Komut çalıştır
+        // Komutu kuyruğa al - sonuç kuyruğun onSuccess/onError callback'leriyle gelir
         if (message.data?.command && message.data?.command_id) {
           console.log(
-            `Komut alındı: ${message.data.command} (ID: ${message.data.command_id})`,
+            `Komut alındı: ${describeCommand(message.data.command)} (ID: ${message.data.command_id})`,
           );
+          this.enqueueCommand(message.data, replyTo);
+        } else {
+          console.error("Eksik komut bilgisi:", message.data);
+        }
+        break;
 
-          // Meşgul durumu bildir
-          this.sendStatus("busy");
+      case "command_cancel":
+        // Bekleyen veya çalışan komutu iptal et, komutun kendi command_result'ı "cancelled" durumuyla gelir
+        if (message.data?.command_id) {
+          console.log(`Komut iptal isteği alındı: ${message.data.command_id}`);
 
-          try {
-            // Komutu çalıştır
-            const result = await executeCommand(
-              message.data.command,
-              message.data.command_id,
-            );
+          const cancelled = commandQueue.cancelCommand(
+            message.data.command_id,
+            message.data.grace_period_ms,
+          );
 
-            console.log(
-              `Komut çalıştırıldı. Çıkış kodu: ${result.exit_code}, Sonuç uzunluğu: ${result.output.length}`,
-            );
+          this.safeSend({
+            type: "command_cancel_result",
+            in_reply_to: replyTo,
+            data: {
+              command_id: message.data.command_id,
+              cancelled,
+              reason: cancelled
+                ? undefined
+                : "Komut kuyrukta veya çalışır durumda değil",
+              timestamp: new Date().toISOString(),
+            },
+          });
+        } else {
+          console.error("Eksik iptal bilgisi:", message.data);
+        }
+        break;
 
-            // Eğer hata varsa loglayalım
-            if (result.exit_code !== 0) {
-              console.error(
-                `Komut hata ile tamamlandı! Çıkış kodu: ${result.exit_code}`,
-              );
-              console.error(`Hata çıktısı: ${result.error || "Yok"}`);
-            }
+      case "job":
+        // Bağımlılıklı çok adımlı iş - adımlar komut kuyruğunda çalışır
+        this.handleJob(message.data, replyTo);
+        break;
 
-            // Sonucu gönder
-            const success = this.safeSend({
-              type: "command_result",
-              data: {
-                command_id: message.data.command_id,
-                result: result.output,
-                exit_code: result.exit_code || 0,
-                timestamp: new Date().toISOString(),
-              },
-            });
+      case "job_cancel":
+        if (message.data?.job_id) {
+          const cancelled = jobRunner.cancelJob(message.data.job_id);
+          this.safeSend({
+            type: "job_cancel_result",
+            in_reply_to: replyTo,
+            data: {
+              job_id: message.data.job_id,
+              cancelled,
+              reason: cancelled ? undefined : "İş çalışır durumda değil",
+              timestamp: new Date().toISOString(),
+            },
+          });
+        } else {
+          console.error("Eksik iş iptal bilgisi:", message.data);
+        }
+        break;
 
-            if (!success) {
-              console.error(
-                "Komut sonucu gönderilemedi, WebSocket bağlantısı problemli olabilir",
-              );
-            }
-          } catch (error) {
-            console.error("Komut çalıştırma hatası:", error);
-
-            // Hata sonucunu göndermeyi dene
-            this.safeSend({
-              type: "command_result",
-              data: {
-                command_id: message.data.command_id,
-                result: "Komut çalıştırma hatası oluştu: " + String(error),
-                exit_code: 1,
-                timestamp: new Date().toISOString(),
-              },
-            });
-          } finally {
-            // Hazır durumunu bildir
-            this.sendStatus("ready");
-          }
+      case "dead_letter_list":
+        this.safeSend({
+          type: "dead_letter_list_result",
+          in_reply_to: replyTo,
+          data: {
+            entries: deadLetterStore.list(),
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+
+      case "dead_letter_get": {
+        const entry = deadLetterStore.get(message.data?.id);
+        this.safeSend({
+          type: "dead_letter_entry",
+          in_reply_to: replyTo,
+          data: {
+            id: message.data?.id,
+            entry,
+            error: entry ? undefined : "Dead-letter kaydı bulunamadı",
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+      }
+
+      case "dead_letter_replay":
+        this.safeSend({
+          type: "dead_letter_replay_result",
+          in_reply_to: replyTo,
+          data: {
+            id: message.data?.id,
+            ...this.replayDeadLetter(message.data?.id),
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+
+      case "dead_letter_purge":
+        // id verilmezse tüm kayıtlar silinir
+        this.safeSend({
+          type: "dead_letter_purge_result",
+          in_reply_to: replyTo,
+          data: {
+            id: message.data?.id,
+            purged: deadLetterStore.purge(message.data?.id),
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+
+      case "queue_pause":
+        commandQueue.pause();
+        this.sendQueueState(replyTo);
+        break;
+
+      case "queue_resume":
+        commandQueue.resume();
+        this.sendQueueState(replyTo);
+        break;
+
+      case "queue_drain":
+        this.handleQueueDrain(message.data, replyTo);
+        break;
+
+      case "queue_status":
+        this.sendQueueState(replyTo);
+        break;
+
+      case "schedule_create":
+        this.handleScheduleCreate(message.data, replyTo);
+        break;
+
+      case "schedule_delete":
+        this.safeSend({
+          type: "schedule_deleted",
+          in_reply_to: replyTo,
+          data: {
+            schedule_id: message.data?.schedule_id,
+            deleted: commandScheduler.remove(message.data?.schedule_id),
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+
+      case "schedule_list":
+        this.safeSend({
+          type: "schedule_list_result",
+          in_reply_to: replyTo,
+          data: {
+            schedules: commandScheduler.list(),
+            timestamp: new Date().toISOString(),
+          },
+        });
+        break;
+
+      case "session_open":
+        if (message.data?.session_id) {
+          this.handleSessionOpen(message.data, replyTo);
         } else {
-          console.error("Eksik komut bilgisi:", message.data);
+          console.error("Eksik oturum bilgisi:", message.data);
+        }
+        break;
+
+      case "session_input":
+        if (
+          message.data?.session_id &&
+          typeof message.data.data === "string" &&
+          !writeSession(message.data.session_id, message.data.data)
+        ) {
+          this.sendSessionError(
+            message.data.session_id,
+            "Oturum bulunamadı",
+            replyTo,
+          );
+        }
+        break;
+
+      case "session_resize":
+        if (
+          message.data?.session_id &&
+          !resizeSession(
+            message.data.session_id,
+            message.data.cols,
+            message.data.rows,
+          )
+        ) {
+          this.sendSessionError(
+            message.data.session_id,
+            "Terminal boyutu değiştirilemedi",
+            replyTo,
+          );
         }
         break;
 
-      default:
-        console.log(`Bilinmeyen mesaj tipi: ${message.type}`);
+      case "session_close":
+        if (
+          message.data?.session_id &&
+          !closeSession(message.data.session_id, "remote_close")
+        ) {
+          this.sendSessionError(
+            message.data.session_id,
+            "Oturum bulunamadı",
+            replyTo,
+          );
+        }
+        break;
+
+      case "ack": {
+        // Sunucu mesajları aldı, outbox'tan çıkar
+        const ids = [
+          message.data.message_id,
+          ...(message.data.message_ids || []),
+        ];
+        this.outbox.ack(
+          ids.filter((id): id is string => typeof id === "string" && id !== ""),
+        );
+        break;
+      }
+
+      case "error":
+        // Sunucu gönderdiğimiz bir mesajı reddetti
+        console.error(
+          `Sunucu hata bildirdi (${message.data?.code || "bilinmiyor"}):`,
+          message.data?.message,
+        );
+        break;
+    }
+  }
+
+  /**
+   * auth_success sonrası oturum durumunu güncelle. Sunucu oturumu geri
+   * yüklediyse kaçırılan mesajları lastSeq sonrasından tekrar gönderir;
+   * yeni oturumda sıra numaraları baştan başlar.
+   */
+  private handleResumption(data: AuthSuccessMessage["data"]): void {
+    const resumed = data?.resumed === true;
+    const requested = this.resumeToken !== null;
+
+    if (data?.clientId) {
+      this.clientId = data.clientId;
+    }
+    if (!resumed) {
+      this.lastSeq = 0;
+    }
+    if (data?.resume_token) {
+      this.resumeToken = data.resume_token;
+    } else if (!resumed) {
+      this.resumeToken = null;
+    }
+
+    logger.connectionEvent("auth_success", {
+      client_id: this.clientId,
+      resume_requested: requested,
+      resumed,
+      last_seq: this.lastSeq,
+    });
+    if (requested && !resumed) {
+      console.log("Önceki oturum devam ettirilemedi, yeni oturum başladı");
+    }
+  }
+
+  /**
+   * Şemaya uymayan mesaj işlenmez; error yanıtı sadece v3 ve sonrasını
+   * konuşan sunucuya gider, eski sürümlerde mesaj loglanıp yok sayılır
+   */
+  private rejectInvalidMessage(error: ProtocolValidationError): void {
+    if (this.protocolVersion >= ERROR_REPLY_PROTOCOL_VERSION) {
+      this.sendProtocolError(error);
+      return;
+    }
+
+    logger.warn("Invalid message ignored", {
+      code: error.code,
+      message_type: error.messageType,
+      errors: error.errors,
+      protocol_version: this.protocolVersion,
+    });
+  }
+
+  /**
+   * Protokole uymayan mesaja yapılandırılmış error yanıtı gönder
+   */
+  private sendProtocolError(
+    error: ProtocolValidationError,
+    inReplyTo?: string,
+  ): void {
+    logger.warn("Invalid message rejected", {
+      code: error.code,
+      message_type: error.messageType,
+      errors: error.errors,
+    });
+
+    const reply = toProtocolErrorMessage(error);
+    this.safeSend({
+      ...reply,
+      in_reply_to: inReplyTo,
+      data: { ...reply.data, timestamp: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * Gelen komutu mesajdaki öncelikle kuyruğa ekle. Komutun ilerleme, çıktı
+   * ve sonuç mesajları inReplyTo ile komut mesajına bağlanır.
+   */
+  private enqueueCommand(
+    data: CommandMessage["data"],
+    inReplyTo?: string,
+  ): void {
+    const command_id: string = data.command_id;
+    // Anahtar verilmezse command_id kullanılır (aynı komutun yeniden gönderimi)
+    const idempotencyKey = String(data.idempotency_key || command_id);
+
+    const decision = idempotency.claim(idempotencyKey, command_id);
+    if (decision.state === "completed") {
+      console.log(
+        `Tekrarlanan komut, saklanan sonuç gönderiliyor: ${command_id} (İlk ID: ${decision.stored.command_id})`,
+      );
+      this.sendCommandResult(
+        command_id,
+        decision.stored.result,
+        decision.stored.command_id,
+        inReplyTo,
+      );
+      return;
+    }
+    if (decision.state === "in_flight") {
+      // Sonuç, çalışan komut bitince bu ID'ye de gönderilir
+      console.log(
+        `Tekrarlanan komut çalışan komuta bağlandı: ${command_id} (İlk ID: ${decision.original_id})`,
+      );
+      return;
     }
+
+    const origin = parseCommandOrigin(data);
+
+    // Sonuç üretmeden biten komutta bağlanan ID'lere de aynı hata gönderilir
+    const failAttached = (status: CommandStatus, error: unknown) => {
+      for (const attachedId of idempotency.release(idempotencyKey)) {
+        this.sendCommandFailure(attachedId, status, error);
+      }
+    };
+
+    commandQueue
+      .addCommand(data.command, {
+        id: command_id,
+        priority: parseCommandPriority(data.priority),
+        replay: parseReplayPolicy(data.on_restart),
+        retry: parseRetryPolicy(data.retry),
+        concurrency: parseConcurrencyGroup(
+          data.concurrency_key,
+          data.concurrency_limit,
+        ),
+        origin,
+        // Yeniden kuyruğa alma (journal rerun, dead-letter replay) için
+        // mesajdaki seçenekler de saklanır
+        metadata: {
+          source: "websocket",
+          idempotency_key: idempotencyKey,
+          retry: data.retry,
+          concurrency_key: data.concurrency_key,
+          concurrency_limit: data.concurrency_limit,
+          origin,
+          // Journal'dan yeniden çalıştırılan komutun sonucu da aynı mesaja bağlanır
+          in_reply_to: inReplyTo,
+        },
+        onProgress: (progress) => {
+          // Kilit bekleme (blocked) ve tekrar deneme (retrying) bildirimleri
+          this.safeSend({
+            type: "command_progress",
+            in_reply_to: inReplyTo,
+            data: {
+              command_id,
+              ...progress,
+              timestamp: new Date().toISOString(),
+            },
+          });
+        },
+        onOutput: (chunk, attempt) => {
+          this.safeSend({
+            type: "command_output",
+            in_reply_to: inReplyTo,
+            data: {
+              command_id,
+              attempt,
+              stream: chunk.stream,
+              seq: chunk.seq,
+              offset: chunk.offset,
+              data: chunk.data,
+            },
+          });
+        },
+        onSuccess: (result) => {
+          console.log(
+            `Komut çalıştırıldı. Durum: ${result.status}, Çıkış kodu: ${result.exit_code}, Sonuç uzunluğu: ${result.stdout.length}`,
+          );
+
+          // Eğer hata varsa loglayalım
+          if (result.status !== "ok") {
+            console.error(
+              `Komut hata ile tamamlandı! Durum: ${result.status}, Çıkış kodu: ${result.exit_code}, Sinyal: ${result.signal || "Yok"}`,
+            );
+            console.error(
+              `Hata çıktısı: ${result.error || result.stderr || "Yok"}`,
+            );
+          }
+
+          // Sonucu gönder - chunk_count ile sunucu eksik parçaları tespit edebilir
+          if (
+            !this.sendCommandResult(command_id, result, undefined, inReplyTo)
+          ) {
+            console.error(
+              "Komut sonucu gönderilemedi, WebSocket bağlantısı problemli olabilir",
+            );
+          }
+
+          // Çalışırken aynı anahtarla gelen diğer ID'ler de sonucu alır
+          for (const attachedId of idempotency.complete(
+            idempotencyKey,
+            result,
+          )) {
+            this.sendCommandResult(attachedId, result, command_id);
+          }
+        },
+        onError: (error) => {
+          // Kuyruktan çalıştırılmadan çıkarıldı (iptal) veya çalıştırma hatası
+          const status: CommandStatus =
+            error instanceof CommandCancelledError
+              ? "cancelled"
+              : "internal_error";
+
+          console.error(`Komut çalıştırılamadı (${status}):`, error);
+          this.sendCommandFailure(command_id, status, error, inReplyTo);
+          failAttached(status, error);
+        },
+      })
+      .catch((error) => {
+        // Kuyruk veya kaynağın kotası dolu ya da aynı ID zaten kuyrukta
+        console.error("Komut kuyruğa alınamadı:", error);
+        const status: CommandStatus =
+          error instanceof QueueRejectedError ? "rejected" : "internal_error";
+        this.sendCommandFailure(command_id, status, error, inReplyTo);
+        failAttached(status, error);
+      });
+  }
+
+  /**
+   * Dead-letter kaydını depodan çıkarıp orijinal command_id ile yeniden
+   * kuyruğa al; sonuç normal command_result olarak gönderilir
+   */
+  public replayDeadLetter(id: string): {
+    success: boolean;
+    command_id?: string;
+    error?: string;
+    code?: "not_found" | "source_unavailable";
+  } {
+    const entry = typeof id === "string" ? deadLetterStore.get(id) : null;
+    if (!entry) {
+      return {
+        success: false,
+        error: "Dead-letter kaydı bulunamadı",
+        code: "not_found",
+      };
+    }
+
+    // Komut geldiği kaynak üzerinden çalıştırılır, sonuç da o kaynağın
+    // mesajıyla (command_result veya schedule_result) iletilir
+    const source = entry.metadata?.source;
+    if (source === "schedule") {
+      const replayed = commandScheduler.replayRun(
+        entry.metadata!.schedule_id,
+        entry.metadata!.scheduled_for,
+      );
+      if (!replayed) {
+        return {
+          success: false,
+          error: `Zamanlama artık yok: ${entry.metadata!.schedule_id}`,
+          code: "source_unavailable",
+        };
+      }
+    } else if (source === "websocket") {
+      // Saklanan eski sonuç döndürülmesin diye idempotency kaydı unutulur
+      const idempotencyKey =
+        entry.metadata?.idempotency_key || entry.command_id;
+      idempotency.forget(idempotencyKey);
+
+      this.enqueueCommand({
+        ...entry.metadata,
+        command_id: entry.command_id,
+        command: entry.command,
+        priority: entry.priority,
+        idempotency_key: idempotencyKey,
+      });
+    } else {
+      // İş adımları iş bağlamı (bağımlılıklar, job_result) olmadan çalışamaz
+      return {
+        success: false,
+        error:
+          source === "job"
+            ? "İş adımı tek başına yeniden çalıştırılamaz, işi yeniden gönderin"
+            : `Kaynağı bilinmeyen komut yeniden çalıştırılamaz: ${entry.command_id}`,
+        code: "source_unavailable",
+      };
+    }
+
+    deadLetterStore.take(id);
+    console.log(
+      `Dead-letter komutu yeniden çalıştırılıyor: ${entry.command_id} (${id})`,
+    );
+
+    return { success: true, command_id: entry.command_id };
+  }
+
+  /**
+   * Journal'dan kurtarılan işleri sakla - bağlantı doğrulanınca işlenir
+   */
+  public resumeFromJournal(recovery: JournalRecovery): void {
+    this.pendingRecovery = recovery;
+  }
+
+  /**
+   * Yarıda kalan komutları sunucuya bildir, rerun politikalıları tekrar kuyruğa al
+   */
+  private processRecovery(): void {
+    const recovery = this.pendingRecovery;
+    if (!recovery) return;
+
+    for (const entry of recovery.interrupted) {
+      // Sunucunun tanımadığı (başka kaynaklı) komutlar bildirilmez
+      if (entry.metadata?.source !== "websocket") {
+        commandJournal.recordCancel(entry.id, "orphaned");
+        continue;
+      }
+
+      console.log(`Yarıda kalan komut bildiriliyor: ${entry.id}`);
+      const sent = this.sendCommandFailure(
+        entry.id,
+        "interrupted",
+        entry.started
+          ? "Ajan yeniden başlatıldı, komut çalışırken yarıda kaldı"
+          : "Ajan yeniden başlatıldı, komut çalıştırılmadan kuyrukta kaldı",
+        entry.metadata.in_reply_to,
+      );
+
+      // Gönderilemezse journal'da kalır, sonraki açılışta tekrar bildirilir
+      if (sent) {
+        commandJournal.recordFinish(entry.id, "interrupted");
+      }
+    }
+
+    for (const entry of recovery.rerun) {
+      if (entry.metadata?.source !== "websocket") {
+        commandJournal.recordCancel(entry.id, "orphaned");
+        continue;
+      }
+
+      console.log(`Yarıda kalan komut yeniden çalıştırılıyor: ${entry.id}`);
+      this.enqueueCommand(
+        {
+          ...entry.metadata,
+          command_id: entry.id,
+          command: entry.command,
+          priority: entry.priority,
+          on_restart: entry.replay,
+        },
+        entry.metadata.in_reply_to,
+      );
+    }
+
+    this.pendingRecovery = null;
+  }
+
+  /**
+   * Çalıştırılamayan komut için çıktısız sonuç gönder
+   */
+  private sendCommandFailure(
+    command_id: string,
+    status: CommandStatus,
+    error: unknown,
+    inReplyTo?: string,
+  ): boolean {
+    const now = new Date().toISOString();
+    return this.sendCommandResult(
+      command_id,
+      {
+        success: false,
+        status,
+        stdout: "",
+        stderr: "",
+        exit_code: null,
+        signal: null,
+        error: error instanceof Error ? error.message : String(error),
+        started_at: now,
+        finished_at: now,
+        duration_ms: 0,
+        chunk_count: 0,
+        policy_revision: getCommandPolicy().revision,
+      },
+      undefined,
+      inReplyTo,
+    );
+  }
+
+  /**
+   * Komut sonucunu anlaşılan protokol sürümüne uygun biçimde gönder
+   */
+  private sendCommandResult(
+    command_id: string,
+    result: CommandResult,
+    duplicateOf?: string, // Sonuç başka bir ID'nin çalıştırmasından geliyorsa
+    inReplyTo?: string, // Sonucu istenen sunucu mesajının ID'si
+  ): boolean {
+    // Eski sunucular tek çıktı alanı ve HTTP benzeri çıkış kodu bekler
+    if (this.protocolVersion < 2) {
+      const legacy = toLegacyCommandResult(result);
+      return this.safeSend({
+        type: "command_result",
+        in_reply_to: inReplyTo,
+        data: {
+          command_id,
+          result: legacy.output,
+          exit_code: legacy.exit_code,
+          status: legacy.cancelled ? "cancelled" : "completed",
+          chunk_count: result.chunk_count,
+          limit_exceeded: result.limit_exceeded,
+          policy_revision: result.policy_revision,
+          attempts: result.attempts,
+          duplicate_of: duplicateOf,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+
+    return this.safeSend({
+      type: "command_result",
+      in_reply_to: inReplyTo,
+      data: {
+        command_id,
+        status: result.status,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        exit_code: result.exit_code,
+        signal: result.signal,
+        error: result.error,
+        started_at: result.started_at,
+        finished_at: result.finished_at,
+        duration_ms: result.duration_ms,
+        chunk_count: result.chunk_count,
+        limit_exceeded: result.limit_exceeded,
+        policy_revision: result.policy_revision,
+        attempts: result.attempts,
+        duplicate_of: duplicateOf,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * İşi doğrula ve çalıştır; her adım bitince job_step_result, iş bitince
+   * tüm adımların sonuçlarıyla job_result gönderilir
+   */
+  private handleJob(data: JobMessage["data"], inReplyTo?: string): void {
+    let definition;
+    try {
+      definition = parseJobDefinition(data);
+    } catch (error) {
+      console.error("İş tanımı geçersiz:", error);
+      this.sendJobRejected(data?.job_id, error, inReplyTo);
+      return;
+    }
+
+    const job_id = definition.id;
+    console.log(`İş alındı: ${job_id} (${definition.steps.length} adım)`);
+
+    jobRunner
+      .runJob(definition, {
+        priority: parseCommandPriority(data.priority),
+        origin: parseCommandOrigin(data),
+        onStepFinished: (step) => {
+          this.safeSend({
+            type: "job_step_result",
+            in_reply_to: inReplyTo,
+            data: { job_id, ...step, timestamp: new Date().toISOString() },
+          });
+        },
+      })
+      .then((result) => {
+        console.log(`İş tamamlandı: ${job_id} (Durum: ${result.status})`);
+        this.safeSend({
+          type: "job_result",
+          in_reply_to: inReplyTo,
+          data: { ...result, timestamp: new Date().toISOString() },
+        });
+      })
+      .catch((error) => {
+        // Aynı job_id ile çalışan bir iş zaten var
+        console.error("İş başlatılamadı:", error);
+        this.sendJobRejected(job_id, error, inReplyTo);
+      });
+  }
+
+  /**
+   * Zamanlamayı kaydet (aynı ID varsa güncellenir)
+   */
+  private handleScheduleCreate(
+    data: ScheduleCreateMessage["data"],
+    inReplyTo?: string,
+  ): void {
+    try {
+      const entry = commandScheduler.upsert(parseScheduleDefinition(data));
+      console.log(
+        `Zamanlama kaydedildi: ${entry.definition.id} (Sonraki: ${entry.next_run_at})`,
+      );
+
+      this.safeSend({
+        type: "schedule_created",
+        in_reply_to: inReplyTo,
+        data: {
+          schedule_id: entry.definition.id,
+          next_run_at: entry.next_run_at,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      console.error("Zamanlama kaydedilemedi:", error);
+      this.safeSend({
+        type: "schedule_error",
+        in_reply_to: inReplyTo,
+        data: {
+          schedule_id: data?.schedule_id,
+          error: error instanceof Error ? error.message : String(error),
+          errors: error instanceof ScheduleValidationError ? error.errors : [],
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Çalışan komutlar bitince (veya süre dolunca) queue_drained gönder
+   */
+  private handleQueueDrain(
+    data: QueueDrainMessage["data"],
+    inReplyTo?: string,
+  ): void {
+    const timeoutMs =
+      typeof data?.timeout_ms === "number" && data.timeout_ms > 0
+        ? data.timeout_ms
+        : undefined;
+
+    const drain = commandQueue.drain(timeoutMs);
+    this.sendQueueState(inReplyTo);
+
+    drain.then((result) => {
+      this.safeSend({
+        type: "queue_drained",
+        in_reply_to: inReplyTo,
+        data: {
+          ...result,
+          busy: commandQueue.isActive(),
+          timestamp: new Date().toISOString(),
+        },
+      });
+    });
+  }
+
+  private sendQueueState(inReplyTo?: string): void {
+    this.safeSend({
+      type: "queue_state",
+      in_reply_to: inReplyTo,
+      data: {
+        state: commandQueue.getState(),
+        busy: commandQueue.isActive(),
+        queued: commandQueue.getQueueSize(),
+        running: commandQueue.getProcessingCount(),
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Hiçbir adımı çalıştırılmayan iş için sonuç gönder
+   */
+  private sendJobRejected(
+    job_id: string,
+    error: unknown,
+    inReplyTo?: string,
+  ): void {
+    this.safeSend({
+      type: "job_result",
+      in_reply_to: inReplyTo,
+      data: {
+        job_id,
+        status: "rejected",
+        error: error instanceof Error ? error.message : String(error),
+        errors: error instanceof JobValidationError ? error.errors : [],
+        steps: [],
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Yeni terminal oturumu aç, çıktıyı oturum ID'si ile etiketleyerek ilet
+   */
+  private handleSessionOpen(
+    data: SessionOpenMessage["data"],
+    inReplyTo?: string,
+  ): void {
+    const sessionId: string = data.session_id;
+    console.log(`Terminal oturumu açılıyor: ${sessionId}`);
+
+    const result = openSession(
+      sessionId,
+      { command: data.command, cols: data.cols, rows: data.rows },
+      {
+        onOutput: (output, seq) => {
+          this.safeSend({
+            type: "session_output",
+            in_reply_to: inReplyTo,
+            data: { session_id: sessionId, seq, data: output },
+          });
+        },
+        onExit: (exitCode, reason) => {
+          this.safeSend({
+            type: "session_closed",
+            in_reply_to: inReplyTo,
+            data: {
+              session_id: sessionId,
+              exit_code: exitCode,
+              reason,
+              timestamp: new Date().toISOString(),
+            },
+          });
+        },
+      },
+    );
+
+    if (result.success) {
+      this.safeSend({
+        type: "session_opened",
+        in_reply_to: inReplyTo,
+        data: { session_id: sessionId, timestamp: new Date().toISOString() },
+      });
+    } else {
+      this.sendSessionError(
+        sessionId,
+        result.error || "Oturum açılamadı",
+        inReplyTo,
+      );
+    }
+  }
+
+  /**
+   * Oturum hatası gönder
+   */
+  private sendSessionError(
+    sessionId: string,
+    error: string,
+    inReplyTo?: string,
+  ): void {
+    this.safeSend({
+      type: "session_error",
+      in_reply_to: inReplyTo,
+      data: {
+        session_id: sessionId,
+        error,
+        timestamp: new Date().toISOString(),
+      },
+    });
   }
 }
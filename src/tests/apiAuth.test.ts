@@ -0,0 +1,17 @@
+import { describe, it, expect } from "bun:test";
+import { isAuthorizedRequest } from "../helpers/apiAuth";
+
+describe("Local API authorization", () => {
+  it("should accept only the configured bearer token", () => {
+    expect(isAuthorizedRequest("Bearer s3cret", "s3cret")).toBe(true);
+    expect(isAuthorizedRequest("bearer  s3cret ", "s3cret")).toBe(true);
+    expect(isAuthorizedRequest("Bearer s3cre", "s3cret")).toBe(false);
+    expect(isAuthorizedRequest("s3cret", "s3cret")).toBe(false);
+    expect(isAuthorizedRequest(undefined, "s3cret")).toBe(false);
+  });
+
+  it("should reject every request when no token is configured", () => {
+    expect(isAuthorizedRequest("Bearer ", "")).toBe(false);
+    expect(isAuthorizedRequest("Bearer x", "")).toBe(false);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import {
+  cancelRunningCommand,
+  executeCommand,
+  isCommandRunning,
+  readOutputStream,
+  toLegacyCommandResult,
+  CommandOutputChunk,
+} from "../helpers/command";
+
+// Verilen bayt parçalarını sırayla üreten akış
+const streamOf = (parts: number[][]): ReadableStream<Uint8Array> =>
+  new ReadableStream({
+    start(controller) {
+      for (const part of parts) {
+        controller.enqueue(new Uint8Array(part));
+      }
+      controller.close();
+    },
+  });
+
+// Komut çalışmaya başlayana kadar bekle
+const waitUntilRunning = async (commandId: string): Promise<void> => {
+  for (let i = 0; i < 100 && !isCommandRunning(commandId); i++) {
+    await Bun.sleep(10);
+  }
+};
+
+describe("Command execution", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "execution-"));
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: {
+          sh: { pathAccess: "none" },
+          sleep: { pathAccess: "none" },
+        },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(() => {
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should not split UTF-8 characters across chunks", async () => {
+    // "ğ€😀": 2, 3 ve 4 baytlık karakterler parça sınırlarında bölünmüş
+    const bytes = Array.from(Buffer.from("ğ€😀"));
+    const chunks: Array<{ data: string; length: number }> = [];
+
+    const text = await readOutputStream(
+      streamOf([
+        bytes.slice(0, 1),
+        bytes.slice(1, 3),
+        bytes.slice(3, 7),
+        bytes.slice(7),
+      ]),
+      (data, length) => {
+        chunks.push({ data, length });
+      },
+    );
+
+    expect(text).toBe("ğ€😀");
+    expect(chunks).toEqual([
+      { data: "ğ", length: 2 },
+      { data: "€", length: 3 },
+      { data: "😀", length: 4 },
+    ]);
+    expect(chunks.some((chunk) => chunk.data.includes("�"))).toBe(false);
+  });
+
+  it("should stream both outputs in order with shared sequence numbers", async () => {
+    const chunks: CommandOutputChunk[] = [];
+    const result = await executeCommand(
+      {
+        program: "sh",
+        args: [
+          "-c",
+          "printf 'bir\\n'; sleep 0.05; printf 'hata\\n' >&2; sleep 0.05; " +
+            "printf '\\304'; sleep 0.05; printf '\\237\\n'",
+        ],
+      },
+      "stream-order",
+      { onOutput: (chunk) => chunks.push(chunk) },
+    );
+
+    expect(result.status).toBe("ok");
+    expect(result.stdout).toBe("bir\nğ\n");
+    expect(result.stderr).toBe("hata\n");
+    expect(result.chunk_count).toBe(chunks.length);
+    expect(chunks.map((chunk) => chunk.seq)).toEqual(
+      chunks.map((_, index) => index),
+    );
+
+    // Yarım gelen "ğ" baytları tek parçada birleştirilir
+    const stdout = chunks.filter((chunk) => chunk.stream === "stdout");
+    expect(stdout.map((chunk) => chunk.data)).toEqual(["bir\n", "ğ\n"]);
+    expect(stdout.map((chunk) => chunk.offset)).toEqual([0, 4]);
+    expect(chunks.find((chunk) => chunk.stream === "stderr")).toMatchObject({
+      data: "hata\n",
+      offset: 0,
+    });
+  });
+
+  it("should cancel with SIGTERM and report the cancelled status", async () => {
+    const running = executeCommand("sleep 5", "cancel-term");
+    await waitUntilRunning("cancel-term");
+
+    expect(cancelRunningCommand("cancel-term", 1000)).toBe(true);
+    // Tekrar iptal isteği yeni sinyal göndermez
+    expect(cancelRunningCommand("cancel-term", 1000)).toBe(true);
+
+    const result = await running;
+    expect(result.status).toBe("cancelled");
+    expect(result.signal).toBe("SIGTERM");
+    expect(result.exit_code).toBeNull();
+    expect(toLegacyCommandResult(result).exit_code).toBe(499);
+    expect(isCommandRunning("cancel-term")).toBe(false);
+    expect(cancelRunningCommand("cancel-term")).toBe(false);
+  });
+
+  it("should send SIGKILL when SIGTERM is ignored", async () => {
+    const started = Date.now();
+    const running = executeCommand(
+      { program: "sh", args: ["-c", "trap '' TERM; while :; do :; done"] },
+      "cancel-kill",
+    );
+    await waitUntilRunning("cancel-kill");
+    await Bun.sleep(50); // trap kurulsun
+
+    cancelRunningCommand("cancel-kill", 200);
+    const result = await running;
+
+    expect(result.status).toBe("cancelled");
+    expect(result.signal).toBe("SIGKILL");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+  });
+});
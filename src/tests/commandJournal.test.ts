@@ -0,0 +1,61 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CommandJournal } from "../services/commandJournal";
+
+describe("Command journal", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+  const journalPath = path.join(dir, "command-journal.jsonl");
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should replay unfinished commands by their policy after a crash", () => {
+    const journal = new CommandJournal(journalPath);
+    const enqueue = (id: string, replay: "rerun" | "interrupt" | "discard") =>
+      journal.recordEnqueue({ id, command: `echo ${id}`, priority: 2, replay });
+
+    enqueue("a", "rerun");
+    enqueue("b", "interrupt");
+    enqueue("c", "discard");
+    enqueue("d", "rerun");
+    journal.recordStart("b", 1);
+    journal.recordStart("d", 1);
+    journal.recordFinish("d", "ok");
+
+    // Çökme anında yarım yazılmış satır
+    fs.appendFileSync(journalPath, '{"event":"finish","id":"a"');
+
+    const recovery = new CommandJournal(journalPath).recover();
+
+    expect(recovery.rerun.map((entry) => entry.id)).toEqual(["a"]);
+    expect(recovery.interrupted.map((entry) => entry.id)).toEqual(["b"]);
+    expect(recovery.interrupted[0].started).toBe(true);
+    expect(recovery.discarded.map((entry) => entry.id)).toEqual(["c"]);
+
+    // Sıkıştırılmış dosyada sadece hâlâ sahiplenilecek işler kalır
+    const ids = fs
+      .readFileSync(journalPath, "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line).id);
+    expect(new Set(ids)).toEqual(new Set(["a", "b"]));
+  });
+
+  it("should drop recovered commands once they are handled", () => {
+    const journal = new CommandJournal(journalPath);
+    journal.recover();
+    expect(journal.getPendingCount()).toBe(2);
+
+    journal.recordFinish("b", "interrupted");
+    journal.recordCancel("a", "orphaned");
+
+    expect(new CommandJournal(journalPath).recover()).toEqual({
+      rerun: [],
+      interrupted: [],
+      discarded: [],
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadCommandPolicy,
+  parseCommandPolicy,
+  PolicyValidationError,
+} from "../helpers/policy";
+import { validateCommand } from "../helpers/command";
+
+describe("Command policy", () => {
+  const policy = parseCommandPolicy(
+    {
+      revision: "test-1",
+      allowedPaths: ["/tmp"],
+      commands: {
+        echo: { allowedFlags: ["-n"], argPattern: "^[a-z-]+$" },
+        uptime: { maxArgs: 0, timeout: 1000 },
+      },
+    },
+    "test",
+  );
+
+  it("should apply defaults and per-command overrides", () => {
+    expect(policy.revision).toBe("test-1");
+    expect(policy.timeout).toBe(30_000);
+    expect(policy.commands.echo.timeout).toBe(30_000);
+    expect(policy.commands.uptime.timeout).toBe(1000);
+  });
+
+  it("should derive a content revision when none is given", () => {
+    const derived = parseCommandPolicy({ commands: {} }, "test");
+    expect(derived.revision).toMatch(/^sha256:[0-9a-f]{12}$/);
+  });
+
+  it("should report every validation error at once", () => {
+    try {
+      parseCommandPolicy(
+        {
+          timeout: -1,
+          allowedPaths: ["relative/path"],
+          commands: { echo: { argPattern: "(", extra: true } },
+        },
+        "test",
+      );
+      throw new Error("expected validation to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(PolicyValidationError);
+      const errors = (error as PolicyValidationError).errors;
+      expect(errors.some((e) => e.startsWith("timeout"))).toBe(true);
+      expect(errors.some((e) => e.startsWith("allowedPaths"))).toBe(true);
+      expect(errors.some((e) => e.startsWith("commands.echo.argPattern"))).toBe(
+        true,
+      );
+      expect(errors.some((e) => e.startsWith("commands.echo.extra"))).toBe(
+        true,
+      );
+    }
+  });
+
+  it("should validate commands against the given policy", () => {
+    expect(validateCommand("echo -n hello", policy).isValid).toBe(true);
+    expect(validateCommand("echo -e hello", policy).isValid).toBe(false);
+    expect(validateCommand("echo Hello", policy).isValid).toBe(false);
+    expect(validateCommand("uptime -p", policy).isValid).toBe(false);
+    expect(validateCommand("ls /tmp", policy).isValid).toBe(false);
+    expect(validateCommand("ls /tmp", policy).policyRevision).toBe("test-1");
+  });
+
+  it("should accept only allowlisted environment variables", () => {
+    const envPolicy = parseCommandPolicy(
+      {
+        allowedEnv: ["TZ", "LD_PRELOAD"],
+        commands: {
+          echo: { pathAccess: "none" },
+          git: { pathAccess: "none", allowedEnv: ["GIT_AUTHOR_NAME"] },
+        },
+      },
+      "test",
+    );
+    const run = (program: string, env: Record<string, string>) =>
+      validateCommand({ program, args: ["x"], env }, envPolicy);
+
+    expect(run("echo", { TZ: "UTC" }).isValid).toBe(true);
+    expect(run("git", { GIT_AUTHOR_NAME: "a" }).isValid).toBe(true);
+    expect(run("git", { TZ: "UTC" }).isValid).toBe(false);
+
+    // Kod çalıştırabilen değişkenler listede olmadıkça reddedilir
+    for (const name of [
+      "NODE_OPTIONS",
+      "PYTHONPATH",
+      "PERL5LIB",
+      "GIT_SSH_COMMAND",
+      "PAGER",
+      "EDITOR",
+      "GCONV_PATH",
+    ]) {
+      const result = run("echo", { [name]: "/tmp/x" });
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain(name);
+    }
+    expect(run("git", { GIT_SSH_COMMAND: "sh -c id" }).isValid).toBe(false);
+
+    // Korunan değişkenler listede olsa bile ezilemez
+    expect(run("echo", { LD_PRELOAD: "/tmp/x.so" }).error).toContain(
+      "Korunan",
+    );
+    expect(() =>
+      parseCommandPolicy({ allowedEnv: ["A B"], commands: {} }, "test"),
+    ).toThrow(PolicyValidationError);
+  });
+
+  it("should load YAML policy files", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "policy-yaml-"));
+
+    try {
+      const yamlPath = path.join(dir, "policy.yaml");
+      fs.writeFileSync(
+        yamlPath,
+        [
+          "revision: yaml-1",
+          "allowedPaths:",
+          "  - path: /tmp",
+          "    mode: rw",
+          "commands:",
+          "  echo:",
+          "    allowedFlags: [-n]",
+          "  uptime:",
+          "    maxArgs: 0",
+        ].join("\n"),
+      );
+
+      const loaded = loadCommandPolicy(yamlPath);
+      expect(loaded.revision).toBe("yaml-1");
+      expect(loaded.allowedPaths[0].mode).toBe("rw");
+      expect(Object.keys(loaded.commands)).toEqual(["echo", "uptime"]);
+      expect(loaded.commands.echo.allowedFlags).toEqual(["-n"]);
+
+      const brokenPath = path.join(dir, "broken.yml");
+      fs.writeFileSync(brokenPath, "commands: [echo\n");
+      expect(() => loadCommandPolicy(brokenPath)).toThrow(
+        PolicyValidationError,
+      );
+    } finally {
+      loadCommandPolicy(path.join(dir, "missing.json"));
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import {
+  CommandQueueManager,
+  CommandPriority,
+  QueueRejectedError,
+  OriginQuotaExceededError,
+  parseCommandOrigin,
+  parseCommandPriority,
+  parseConcurrencyGroup,
+} from "../services/commandQueue";
+import type { CommandResult } from "../helpers/command";
+
+describe("Command queue", () => {
+  const queue = new CommandQueueManager({ maxQueueSize: 2 });
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "queue-"));
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: { echo: { pathAccess: "none" }, sleep: {} },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(async () => {
+    await queue.cleanup();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should parse priorities from messages", () => {
+    expect(parseCommandPriority(3)).toBe(CommandPriority.HIGH);
+    expect(parseCommandPriority("critical")).toBe(CommandPriority.CRITICAL);
+    expect(parseCommandPriority("urgent")).toBe(CommandPriority.NORMAL);
+    expect(parseCommandPriority(undefined)).toBe(CommandPriority.NORMAL);
+  });
+
+  it("should run commands under the caller's id and report activity", async () => {
+    const activity: boolean[] = [];
+    const unsubscribe = queue.onActivityChange((active) =>
+      activity.push(active),
+    );
+
+    const chunks: string[] = [];
+    const result = await new Promise<CommandResult>((resolve, reject) => {
+      queue
+        .addCommand("echo kuyruk", {
+          id: "queue-test-1",
+          onOutput: (chunk) => chunks.push(chunk.data),
+          onSuccess: resolve,
+          onError: reject,
+        })
+        .catch(reject);
+    });
+    unsubscribe();
+
+    expect(result.status).toBe("ok");
+    expect(chunks.join("")).toBe("kuyruk\n");
+    expect(activity).toEqual([true, false]);
+    expect(queue.getOccupancy()).toBe(0);
+
+    const stats = queue.getStats();
+    expect(stats.status_counts).toEqual({ ok: 1 });
+    expect(stats.latency.end_to_end.count).toBe(1);
+    expect(stats.performance.throughput_per_minute).toBe(1);
+  });
+
+  it("should reject duplicate ids while the command is pending", async () => {
+    await queue.addCommand("sleep 1", { id: "queue-test-2" });
+
+    await expect(
+      queue.addCommand("echo iki", { id: "queue-test-2" }),
+    ).rejects.toThrow(QueueRejectedError);
+    expect(queue.cancelCommand("queue-test-2")).toBe(true);
+  });
+
+  it("should serialize commands sharing a concurrency key", async () => {
+    const lockedQueue = new CommandQueueManager();
+    const finished: string[] = [];
+    const progress: any[] = [];
+
+    const run = (id: string, command: string, key?: string) =>
+      new Promise<CommandResult>((resolve, reject) => {
+        lockedQueue
+          .addCommand(command, {
+            id,
+            concurrency: parseConcurrencyGroup(key, undefined),
+            onProgress: (update) => progress.push({ id, ...update }),
+            onSuccess: (result) => {
+              finished.push(id);
+              resolve(result);
+            },
+            onError: reject,
+          })
+          .catch(reject);
+      });
+
+    const first = run("apt-1", "sleep 0.3", "apt");
+    const second = run("apt-2", "echo ikinci", "apt");
+    const unrelated = run("other", "echo bağımsız");
+
+    await unrelated;
+    const stats = lockedQueue.getStats();
+    expect(stats.concurrency.held_slots).toEqual({ apt: 1 });
+    expect(
+      stats.concurrency.blocked_commands.map((c) => c.command_id),
+    ).toEqual(["apt-2"]);
+    expect(progress).toContainEqual(
+      expect.objectContaining({ id: "apt-2", status: "blocked" }),
+    );
+
+    await Promise.all([first, second]);
+    expect(finished).toEqual(["other", "apt-1", "apt-2"]);
+    expect(lockedQueue.getStats().concurrency.held_slots).toEqual({});
+
+    await lockedQueue.cleanup();
+  });
+
+  it("should hold commands while paused and drain running ones", async () => {
+    const controlledQueue = new CommandQueueManager();
+    const activity: boolean[] = [];
+    controlledQueue.onActivityChange((active) => activity.push(active));
+
+    const run = (id: string, command: string) =>
+      new Promise<CommandResult>((resolve, reject) => {
+        controlledQueue
+          .addCommand(command, { id, onSuccess: resolve, onError: reject })
+          .catch(reject);
+      });
+
+    const running = run("drain-1", "sleep 0.2");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    controlledQueue.pause();
+    const held = run("drain-2", "echo bekleyen");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(controlledQueue.getProcessingCount()).toBe(1);
+    expect(controlledQueue.getQueueSize()).toBe(1);
+
+    const result = await controlledQueue.drain(5000);
+    expect(result).toEqual({ drained: true, running: [], queued: 1 });
+    expect((await running).status).toBe("ok");
+    expect(controlledQueue.isActive()).toBe(false);
+    expect(activity).toEqual([true, false]);
+
+    await expect(
+      controlledQueue.addCommand("echo yeni", { id: "drain-3" }),
+    ).rejects.toThrow(QueueRejectedError);
+
+    controlledQueue.resume();
+    expect((await held).status).toBe("ok");
+    expect(controlledQueue.getState()).toBe("running");
+
+    await controlledQueue.cleanup();
+  });
+
+  it("should not start a batch beyond the concurrency limit", async () => {
+    const limitedQueue = new CommandQueueManager({
+      maxConcurrentCommands: 2,
+      batchSize: 3,
+    });
+
+    const run = (id: string, command: string) =>
+      new Promise<CommandResult>((resolve, reject) => {
+        limitedQueue
+          .addCommand(command, { id, onSuccess: resolve, onError: reject })
+          .catch(reject);
+      });
+
+    // Çalışan komut sayısını örnekle
+    let maxProcessing = 0;
+    const sampler = setInterval(() => {
+      maxProcessing = Math.max(
+        maxProcessing,
+        limitedQueue.getProcessingCount(),
+      );
+    }, 10);
+
+    // Uzun komut bir slotu tutarken bekleyenler üç komutluk batch'e toplanır
+    const results = await Promise.all([
+      run("limit-1", "sleep 0.1"),
+      run("limit-2", "sleep 1"),
+      ...["limit-3", "limit-4", "limit-5", "limit-6"].map((id) =>
+        run(id, "sleep 0.1"),
+      ),
+    ]);
+    clearInterval(sampler);
+
+    expect(maxProcessing).toBe(2);
+    expect(results.every((result) => result.status === "ok")).toBe(true);
+
+    await limitedQueue.cleanup();
+  });
+
+  it("should release the key slot of commands returned to the queue", async () => {
+    const overflowQueue = new CommandQueueManager({
+      maxConcurrentCommands: 2,
+      batchSize: 2,
+    });
+    const cancelled: string[] = [];
+
+    const run = (id: string, priority: CommandPriority, key?: string) =>
+      new Promise<CommandResult>((resolve, reject) => {
+        overflowQueue
+          .addCommand("echo taşan", {
+            id,
+            priority,
+            concurrency: parseConcurrencyGroup(key, undefined),
+            onSuccess: resolve,
+            onError: (error) => {
+              cancelled.push(id);
+              reject(error);
+            },
+          })
+          .catch(reject);
+      });
+
+    // Komutlar hemen başlamasın, kuyrukta birlikte beklesin
+    overflowQueue["hasPendingBatch"] = () => true;
+    const other = run("overflow-other", CommandPriority.HIGH);
+    const locked = run("overflow-apt", CommandPriority.LOW, "apt").catch(
+      () => null,
+    );
+
+    // Batch iki boş slotla oluşturulur, başlamadan önce bir slot dolar
+    overflowQueue["createBatch"]();
+    expect(overflowQueue.getStats().concurrency.held_slots).toEqual({
+      apt: 1,
+    });
+    overflowQueue["processingQueue"].add("external");
+    void overflowQueue["processNextBatch"]();
+
+    expect(overflowQueue.getQueueSize()).toBe(1);
+    expect(overflowQueue.getStats().concurrency.held_slots).toEqual({});
+
+    // Kuyruktan iptal edilen komut anahtarı kilitli bırakmaz
+    expect(overflowQueue.cancelCommand("overflow-apt")).toBe(true);
+    await locked;
+    expect(cancelled).toEqual(["overflow-apt"]);
+    expect(overflowQueue.getStats().concurrency.held_slots).toEqual({});
+
+    overflowQueue["processingQueue"].delete("external");
+    expect((await other).status).toBe("ok");
+    await overflowQueue.cleanup();
+  });
+
+  it("should interleave origins fairly and enforce per-origin quotas", async () => {
+    const fairQueue = new CommandQueueManager({
+      maxConcurrentCommands: 1,
+      batchSize: 1,
+      batchTimeout: 50,
+      originQuota: 3,
+    });
+    const order: string[] = [];
+
+    const run = (id: string, origin: string) =>
+      new Promise<CommandResult>((resolve, reject) => {
+        fairQueue
+          .addCommand(`echo ${id}`, {
+            id,
+            origin,
+            onSuccess: (result) => {
+              order.push(origin);
+              resolve(result);
+            },
+            onError: reject,
+          })
+          .catch(reject);
+      });
+
+    expect(parseCommandOrigin({ user_id: "u1", room_id: "r1" })).toBe("u1");
+    expect(parseCommandOrigin({})).toBe("default");
+
+    fairQueue.pause();
+    const runs = [
+      run("noisy-1", "noisy"),
+      run("noisy-2", "noisy"),
+      run("noisy-3", "noisy"),
+    ];
+
+    await expect(
+      fairQueue.addCommand("echo fazla", { id: "noisy-4", origin: "noisy" }),
+    ).rejects.toThrow(OriginQuotaExceededError);
+
+    runs.push(run("quiet-1", "quiet"));
+    expect(fairQueue.getStats().origins).toEqual({
+      noisy: { waiting: 3, quota: 3, weight: 1 },
+      quiet: { waiting: 1, quota: 3, weight: 1 },
+    });
+
+    fairQueue.resume();
+    await Promise.all(runs);
+    // Kuyruğa en son girse de sessiz kaynak gürültülü kaynağın arkasında kalmaz
+    expect(order.indexOf("quiet")).toBeLessThan(2);
+    expect(order.filter((origin) => origin === "noisy")).toHaveLength(3);
+
+    await fairQueue.cleanup();
+  });
+});
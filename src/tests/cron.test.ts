@@ -0,0 +1,82 @@
+import { describe, it, expect } from "bun:test";
+import {
+  isValidTimezone,
+  nextCronTime,
+  parseCronExpression,
+} from "../helpers/cron";
+
+const next = (expression: string, after: string, timezone = "UTC") =>
+  nextCronTime(parseCronExpression(expression), new Date(after), timezone)
+    ?.toISOString();
+
+describe("Cron expressions", () => {
+  it("should parse lists, ranges, steps and names", () => {
+    const schedule = parseCronExpression("*/15 9-17 * jan-mar mon,wed,fri");
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours.size).toBe(9);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 3, 5]);
+    expect(parseCronExpression("0 0 * * 7").daysOfWeek.has(0)).toBe(true);
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCronExpression("* * *")).toThrow();
+    expect(() => parseCronExpression("60 * * * *")).toThrow();
+    expect(() => parseCronExpression("*/0 * * * *")).toThrow();
+    expect(() => parseCronExpression("5-1 * * * *")).toThrow();
+  });
+
+  it("should find the next matching minute", () => {
+    expect(next("*/15 * * * *", "2026-10-19T10:07:30Z")).toBe(
+      "2026-10-19T10:15:00.000Z",
+    );
+    expect(next("@daily", "2026-10-19T10:07:00Z")).toBe(
+      "2026-10-20T00:00:00.000Z",
+    );
+    // Dakika sınırında tam eşleşme bir sonraki çalışmayı verir
+    expect(next("0 * * * *", "2026-10-19T10:00:00Z")).toBe(
+      "2026-10-19T11:00:00.000Z",
+    );
+    expect(next("0 0 31 2 *", "2026-10-19T10:00:00Z")).toBeUndefined();
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // 1'i veya Pazartesi; 2026-10-19 Pazartesi
+    expect(next("0 12 1 * mon", "2026-10-18T13:00:00Z")).toBe(
+      "2026-10-19T12:00:00.000Z",
+    );
+  });
+
+  it("should evaluate in the schedule's timezone", () => {
+    expect(isValidTimezone("Europe/Istanbul")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+
+    // İstanbul UTC+3
+    expect(next("30 9 * * *", "2026-10-19T00:00:00Z", "Europe/Istanbul")).toBe(
+      "2026-10-19T06:30:00.000Z",
+    );
+    // New York'ta 25 Ekim 2026 hâlâ yaz saati (UTC-4)
+    expect(next("0 2 * * *", "2026-10-25T00:00:00Z", "America/New_York")).toBe(
+      "2026-10-25T06:00:00.000Z",
+    );
+  });
+
+  it("should advance by local calendar days across clock changes", () => {
+    // Berlin'de 29 Mart 2026 23 saat: Pazartesi 30 Mart atlanmamalı
+    expect(
+      next("0 0 * * 1", "2026-03-27T23:00:00Z", "Europe/Berlin"),
+    ).toBe("2026-03-29T22:00:00.000Z");
+    expect(next("@daily", "2026-03-28T23:00:00Z", "Europe/Berlin")).toBe(
+      "2026-03-29T22:00:00.000Z",
+    );
+
+    // 25 Ekim 2026 25 saat: Pazartesi gece yarısı yine UTC+1 ile bulunur
+    expect(
+      next("0 0 * * 1", "2026-10-23T22:00:00Z", "Europe/Berlin"),
+    ).toBe("2026-10-25T23:00:00.000Z");
+    expect(next("0 12 * * 0", "2026-10-23T22:00:00Z", "Europe/Berlin")).toBe(
+      "2026-10-25T11:00:00.000Z",
+    );
+  });
+});
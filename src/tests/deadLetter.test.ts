@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import { parseRetryPolicy } from "../helpers/retry";
+import { CommandQueueManager } from "../services/commandQueue";
+import { DeadLetterStore } from "../services/deadLetter";
+import type { CommandResult } from "../helpers/command";
+
+describe("Dead letter store", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "dead-letter-"));
+  const storePath = path.join(dir, "dead-letters.json");
+  const store = new DeadLetterStore(storePath, 3);
+  const queue = new CommandQueueManager(undefined, null, store);
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: { echo: { pathAccess: "none" }, sh: {} },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(async () => {
+    await queue.cleanup();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should keep every attempt's output once retries are exhausted", async () => {
+    const result = await new Promise<CommandResult>((resolve, reject) => {
+      queue
+        .addCommand(
+          {
+            program: "sh",
+            args: ["-c", "echo deneme; echo hata >&2; exit 75"],
+          },
+          {
+            id: "dead-1",
+            retry: parseRetryPolicy({
+              max_attempts: 2,
+              base_delay_ms: 10,
+              retry_on: { exit_codes: [75] },
+            }),
+            onSuccess: resolve,
+            onError: reject,
+          },
+        )
+        .catch(reject);
+    });
+
+    expect(result.status).toBe("failed");
+
+    const [summary] = store.list();
+    expect(summary.command_id).toBe("dead-1");
+    expect(summary.reason).toBe("max_attempts_exhausted");
+    expect(summary.attempt_count).toBe(2);
+
+    const entry = store.get(summary.id)!;
+    expect(entry.attempts.map((attempt) => attempt.stdout)).toEqual([
+      "deneme\n",
+      "deneme\n",
+    ]);
+    expect(entry.attempts[1].stderr).toBe("hata\n");
+    expect(entry.attempts[1].exit_code).toBe(75);
+  });
+
+  it("should not dead-letter successful or non-retryable commands", async () => {
+    const before = store.getCount();
+
+    await new Promise<CommandResult>((resolve, reject) => {
+      queue
+        .addCommand("echo tamam", { onSuccess: resolve, onError: reject })
+        .catch(reject);
+    });
+
+    expect(store.getCount()).toBe(before);
+
+    // Tekrar denemesi tanımlı olmayan komut geçici hatada da saklanmaz
+    const single = await new Promise<CommandResult>((resolve, reject) => {
+      queue
+        .addCommand(
+          { program: "sh", args: ["-c", "exit 75"] },
+          {
+            retry: parseRetryPolicy({ retry_on: { exit_codes: [75] } }),
+            onSuccess: resolve,
+            onError: reject,
+          },
+        )
+        .catch(reject);
+    });
+
+    expect(single.status).toBe("failed");
+    expect(store.getCount()).toBe(before);
+  });
+
+  it("should persist, take and purge entries", () => {
+    const reloaded = new DeadLetterStore(storePath, 3);
+    expect(reloaded.load()).toBe(1);
+
+    for (let i = 0; i < 3; i++) {
+      reloaded.add({
+        command_id: `extra-${i}`,
+        command: "echo",
+        priority: 2,
+        reason: "execution_error",
+        attempts: [],
+      });
+    }
+
+    // En eski kayıt (dead-1) kapasite aşılınca düşer
+    const ids = reloaded.list().map((entry) => entry.command_id);
+    expect(ids).toEqual(["extra-2", "extra-1", "extra-0"]);
+
+    const taken = reloaded.take(reloaded.list()[0].id);
+    expect(taken?.command_id).toBe("extra-2");
+    expect(reloaded.purge()).toBe(2);
+    expect(new DeadLetterStore(storePath).load()).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { IdempotencyManager } from "../services/idempotency";
+import { resultCache } from "../services/memoryManager";
+import type { CommandResult } from "../helpers/command";
+
+const makeResult = (stdout: string): CommandResult => {
+  const now = new Date().toISOString();
+  return {
+    success: true,
+    status: "ok",
+    stdout,
+    stderr: "",
+    exit_code: 0,
+    signal: null,
+    started_at: now,
+    finished_at: now,
+    duration_ms: 1,
+    chunk_count: 1,
+    policy_revision: "test",
+  };
+};
+
+describe("Idempotency", () => {
+  it("should attach repeats while running and replay the stored result", () => {
+    const manager = new IdempotencyManager(resultCache, 60000);
+
+    expect(manager.claim("idem-run", "cmd-1")).toEqual({ state: "new" });
+    expect(manager.claim("idem-run", "cmd-1")).toEqual({
+      state: "in_flight",
+      original_id: "cmd-1",
+    });
+    expect(manager.claim("idem-run", "cmd-2").state).toBe("in_flight");
+
+    // Aynı ID'nin tekrarı bağlanmaz, sonucu zaten kendi alır
+    expect(manager.complete("idem-run", makeResult("hi"))).toEqual(["cmd-2"]);
+
+    const decision = manager.claim("idem-run", "cmd-3");
+    expect(decision.state).toBe("completed");
+    if (decision.state === "completed") {
+      expect(decision.stored.command_id).toBe("cmd-1");
+      expect(decision.stored.result.stdout).toBe("hi");
+    }
+    expect(manager.getInFlightCount()).toBe(0);
+  });
+
+  it("should forget the key when the command produced no result", () => {
+    const manager = new IdempotencyManager(resultCache, 60000);
+
+    manager.claim("idem-cancel", "cmd-1");
+    manager.claim("idem-cancel", "cmd-2");
+
+    expect(manager.release("idem-cancel")).toEqual(["cmd-2"]);
+    expect(manager.claim("idem-cancel", "cmd-3")).toEqual({ state: "new" });
+  });
+
+  it("should re-execute once the window has passed", async () => {
+    const manager = new IdempotencyManager(resultCache, 20);
+
+    manager.claim("idem-window", "cmd-1");
+    manager.complete("idem-window", makeResult("old"));
+    await Bun.sleep(40);
+
+    expect(manager.claim("idem-window", "cmd-2")).toEqual({ state: "new" });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import { CommandQueueManager } from "../services/commandQueue";
+import {
+  JobRunner,
+  JobValidationError,
+  parseJobDefinition,
+} from "../services/jobRunner";
+
+const validationErrors = (raw: unknown): string[] => {
+  try {
+    parseJobDefinition(raw);
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(JobValidationError);
+    return (error as JobValidationError).errors;
+  }
+};
+
+describe("Job runner", () => {
+  const queue = new CommandQueueManager();
+  const runner = new JobRunner(queue);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "jobs-"));
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: {
+          echo: { pathAccess: "none" },
+          false: {},
+          sleep: {},
+        },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(async () => {
+    await queue.cleanup();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should reject unknown dependencies and cycles", () => {
+    expect(
+      validationErrors({
+        job_id: "bad",
+        steps: [{ id: "a", command: "echo a", depends_on: ["missing"] }],
+      }).some((e) => e.includes("bilinmeyen adım")),
+    ).toBe(true);
+
+    expect(
+      validationErrors({
+        job_id: "cycle",
+        steps: [
+          { id: "a", command: "echo a", depends_on: ["c"] },
+          { id: "b", command: "echo b", depends_on: ["a"] },
+          { id: "c", command: "echo c", depends_on: ["b"] },
+        ],
+      }).some((e) => e.includes("döngüsel")),
+    ).toBe(true);
+
+    expect(validationErrors({ job_id: "empty", steps: [] })).toHaveLength(1);
+  });
+
+  it("should fan out, fan in and report per-step results", async () => {
+    const finished: string[] = [];
+    const result = await runner.runJob(
+      parseJobDefinition({
+        job_id: "fan",
+        steps: [
+          { id: "build", command: "echo build" },
+          { id: "test-a", command: "echo a", depends_on: ["build"] },
+          { id: "test-b", command: "echo b", depends_on: ["build"] },
+          {
+            id: "deploy",
+            command: "echo deploy",
+            depends_on: ["test-a", "test-b"],
+          },
+        ],
+      }),
+      { onStepFinished: (step) => finished.push(step.step_id) },
+    );
+
+    expect(result.status).toBe("ok");
+    expect(finished[0]).toBe("build");
+    expect(finished[3]).toBe("deploy");
+    expect(result.steps.every((step) => step.status === "ok")).toBe(true);
+    expect(
+      result.steps.find((step) => step.step_id === "deploy")?.result?.stdout,
+    ).toBe("deploy\n");
+  });
+
+  it("should skip dependents of a failed step and run failure handlers", async () => {
+    const result = await runner.runJob(
+      parseJobDefinition({
+        job_id: "failing",
+        steps: [
+          { id: "check", command: "false" },
+          { id: "apply", command: "echo apply", depends_on: ["check"] },
+          { id: "notify", command: "echo after", depends_on: ["apply"] },
+          {
+            id: "rollback",
+            command: "echo rollback",
+            depends_on: ["check"],
+            run_if: "failure",
+          },
+          {
+            id: "cleanup",
+            command: "echo cleanup",
+            depends_on: ["apply", "rollback"],
+            run_if: "always",
+          },
+        ],
+      }),
+    );
+
+    const statuses = Object.fromEntries(
+      result.steps.map((step) => [step.step_id, step.status]),
+    );
+
+    expect(result.status).toBe("failed");
+    expect(statuses).toEqual({
+      check: "failed",
+      apply: "skipped",
+      notify: "skipped",
+      rollback: "ok",
+      cleanup: "ok",
+    });
+  });
+
+  it("should cancel pending and running steps", async () => {
+    const running = runner.runJob(
+      parseJobDefinition({
+        job_id: "cancel",
+        steps: [
+          { id: "wait", command: "sleep 5" },
+          { id: "after", command: "echo after", depends_on: ["wait"] },
+        ],
+      }),
+    );
+
+    await Bun.sleep(100);
+    expect(runner.cancelJob("cancel")).toBe(true);
+
+    const result = await running;
+    expect(result.status).toBe("cancelled");
+    expect(result.steps.map((step) => step.status)).toEqual([
+      "cancelled",
+      "cancelled",
+    ]);
+  });
+});
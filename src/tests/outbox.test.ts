@@ -0,0 +1,144 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Outbox } from "../services/outbox";
+
+const message = (outbox: Outbox, type: string = "command_result") => ({
+  type,
+  message_id: outbox.nextMessageId(),
+  data: { command_id: "cmd-1" },
+});
+
+// Mesajın outbox'ta kapladığı boyut
+const sizeOf = (item: object) => Buffer.byteLength(JSON.stringify(item));
+
+const readLines = (filePath: string) =>
+  fs.readFileSync(filePath, "utf8").trim().split("\n");
+
+describe("Outbox", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "outbox-"));
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should keep messages until they are acknowledged", () => {
+    const outbox = new Outbox(path.join(dir, "ack.jsonl"), 10000, 60000);
+    const first = message(outbox);
+    const second = message(outbox);
+    expect(first.message_id).not.toBe(second.message_id);
+
+    outbox.add(first);
+    outbox.add(second);
+    outbox.markSent(first.message_id);
+    outbox.markSent(second.message_id);
+
+    // Yeniden bağlanınca tekrar gönderim sırası korunur
+    expect(outbox.getPending().map((entry) => entry.message_id)).toEqual([
+      first.message_id,
+      second.message_id,
+    ]);
+
+    // Aynı onayın tekrar gelmesi veya bilinmeyen ID zararsız
+    expect(outbox.ack([first.message_id, "unknown"])).toBe(1);
+    expect(outbox.ack([first.message_id])).toBe(0);
+    expect(outbox.has(first.message_id)).toBe(false);
+
+    outbox.markSent(second.message_id);
+    const stats = outbox.getStats();
+    expect(stats.depth).toBe(1);
+    expect(stats.bytes).toBe(sizeOf(second));
+    expect(stats.acked).toBe(1);
+    expect(stats.retransmitted).toBe(1);
+    expect(outbox.getPending()[0].attempts).toBe(2);
+  });
+
+  it("should persist unsent messages across restarts", () => {
+    const filePath = path.join(dir, "offline.jsonl");
+    const outbox = new Outbox(filePath, 10000, 60000);
+    const result = message(outbox);
+    const event = message(outbox, "job_result");
+    outbox.add(result);
+    outbox.add(event);
+    outbox.markSent(event.message_id);
+
+    // Onay desteklemeyen sunucuya gönderilen mesaj hemen tamamlanır
+    outbox.markSent(result.message_id, false);
+
+    const restarted = new Outbox(filePath, 10000, 60000);
+    expect(restarted.load()).toBe(1);
+    expect(restarted.getPending()[0].message).toEqual(event);
+    expect(restarted.getPending()[0].attempts).toBe(1);
+    expect(restarted.getStats().oldest_age_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should append events instead of rewriting the file", () => {
+    const filePath = path.join(dir, "append.jsonl");
+    const outbox = new Outbox(filePath, 10000, 60000, 3);
+    const messages = [message(outbox), message(outbox), message(outbox)];
+    for (const item of messages) {
+      outbox.add(item);
+      outbox.markSent(item.message_id);
+    }
+    outbox.ack([messages[0].message_id, messages[1].message_id]);
+
+    expect(readLines(filePath).map((line) => JSON.parse(line).event)).toEqual([
+      "add",
+      "sent",
+      "add",
+      "sent",
+      "add",
+      "sent",
+      "remove",
+      "remove",
+    ]);
+
+    // Eşik aşılınca dosya sadece bekleyen mesajlarla yeniden yazılır
+    outbox.add(message(outbox));
+    outbox.markSent(outbox.getPending()[1].message_id, false);
+    expect(readLines(filePath).map((line) => JSON.parse(line))).toEqual([
+      expect.objectContaining({
+        event: "add",
+        message_id: messages[2].message_id,
+      }),
+      expect.objectContaining({
+        event: "sent",
+        message_id: messages[2].message_id,
+      }),
+    ]);
+
+    // Yarım kalmış son satır atlanır
+    fs.appendFileSync(filePath, '{"event":"remove","mess');
+    const restarted = new Outbox(filePath, 10000, 60000);
+    expect(restarted.load()).toBe(1);
+  });
+
+  it("should drop the oldest messages beyond the size and age limits", () => {
+    const first = message(new Outbox(path.join(dir, "unused.jsonl")));
+    const outbox = new Outbox(
+      path.join(dir, "limits.jsonl"),
+      sizeOf(first) * 2 + 10,
+      1000,
+    );
+    const messages = [message(outbox), message(outbox), message(outbox)];
+    for (const item of messages) {
+      outbox.add(item);
+    }
+
+    expect(outbox.has(messages[0].message_id)).toBe(false);
+    expect(outbox.getStats().depth).toBe(2);
+    expect(outbox.getStats().dropped).toBe(1);
+
+    // Sınırdan büyük tek mesaj saklanmaz
+    const large = { ...message(outbox), data: { output: "x".repeat(1000) } };
+    outbox.add(large);
+    expect(outbox.has(large.message_id)).toBe(false);
+    expect(outbox.getStats().bytes).toBe(0);
+
+    outbox.add(message(outbox));
+    // Süresi dolan mesajlar tekrar gönderilmez
+    expect(outbox.getPending(Date.now() + 5000)).toEqual([]);
+    expect(outbox.getStats().dropped).toBe(5);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { checkPathAccess, extractPathArgument } from "../helpers/pathGuard";
+import { parseCommandPolicy } from "../helpers/policy";
+import { validateCommand } from "../helpers/command";
+
+describe("Path confinement", () => {
+  let base: string;
+  let policy: ReturnType<typeof parseCommandPolicy>;
+
+  beforeAll(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "pathguard-")));
+    fs.mkdirSync(path.join(base, "rw"));
+    fs.mkdirSync(path.join(base, "ro"));
+    fs.mkdirSync(path.join(base, "outside"));
+    fs.writeFileSync(path.join(base, "outside", "secret"), "x");
+    fs.symlinkSync(path.join(base, "outside"), path.join(base, "rw", "escape"));
+    fs.symlinkSync(
+      path.join(base, "outside", "secret"),
+      path.join(base, "rw", "leak"),
+    );
+
+    policy = parseCommandPolicy(
+      {
+        allowedPaths: [
+          { path: path.join(base, "rw"), mode: "rw" },
+          path.join(base, "ro"),
+        ],
+        commands: {
+          cat: {},
+          touch: { pathAccess: "write" },
+          echo: { pathAccess: "none" },
+        },
+      },
+      "test",
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(base, { recursive: true, force: true });
+  });
+
+  it("should treat every non-flag argument and flag value as a path", () => {
+    expect(extractPathArgument("notes.txt")).toBe("notes.txt");
+    expect(extractPathArgument("-n")).toBeNull();
+    expect(extractPathArgument("--verbose")).toBeNull();
+    expect(extractPathArgument("-")).toBeNull();
+    expect(extractPathArgument("./notes.txt")).toBe("./notes.txt");
+    expect(extractPathArgument("..")).toBe("..");
+    expect(extractPathArgument("--file=/etc/passwd")).toBe("/etc/passwd");
+    expect(extractPathArgument("-f/etc/passwd")).toBe("/etc/passwd");
+  });
+
+  it("should resolve symlinks and .. before checking roots", () => {
+    const roots = policy.allowedPaths;
+    const cwd = path.join(base, "rw");
+
+    expect(checkPathAccess("./new-file", cwd, roots, "write").allowed).toBe(true);
+    expect(checkPathAccess("escape/secret", cwd, roots, "read")).toMatchObject({
+      allowed: false,
+      resolved: path.join(base, "outside", "secret"),
+    });
+    expect(checkPathAccess("../outside", cwd, roots, "read").allowed).toBe(false);
+    expect(checkPathAccess("../ro", cwd, roots, "read").allowed).toBe(true);
+    expect(checkPathAccess("../ro/file", cwd, roots, "write").allowed).toBe(
+      false,
+    );
+  });
+
+  it("should confine cwd and file arguments in validateCommand", () => {
+    const rw = path.join(base, "rw");
+    const ro = path.join(base, "ro");
+
+    expect(validateCommand(`cat ${rw}/a`, policy).cwd).toBe(rw);
+    expect(
+      validateCommand({ program: "cat", args: ["a"], cwd: ro }, policy).isValid,
+    ).toBe(true);
+    expect(
+      validateCommand({ program: "cat", args: ["a"], cwd: `${rw}/escape` }, policy)
+        .resolvedPath,
+    ).toBe(path.join(base, "outside"));
+    expect(validateCommand("cat /etc/passwd", policy)).toMatchObject({
+      isValid: false,
+      resolvedPath: "/etc/passwd",
+    });
+    expect(validateCommand(`touch ${ro}/a`, policy).isValid).toBe(false);
+    expect(validateCommand(`touch ${rw}/a`, policy).isValid).toBe(true);
+    expect(validateCommand("echo /etc/passwd", policy).isValid).toBe(true);
+  });
+
+  it("should not let bare names or attached flag values escape", () => {
+    const rw = path.join(base, "rw");
+    const run = (args: string[]) =>
+      validateCommand({ program: "cat", args, cwd: rw }, policy);
+
+    // Nokta veya bölü içermeyen symlink adı da çözülür
+    expect(run(["leak"])).toMatchObject({
+      isValid: false,
+      resolvedPath: path.join(base, "outside", "secret"),
+    });
+    expect(run(["./leak"]).isValid).toBe(false);
+    expect(run(["-f/etc/passwd"])).toMatchObject({
+      isValid: false,
+      resolvedPath: "/etc/passwd",
+    });
+    expect(run(["--", "-leak"]).isValid).toBe(true);
+    expect(run(["--", "/etc/passwd"]).isValid).toBe(false);
+    expect(run(["-n", "notes.txt"]).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  loadCommandPolicy,
+  parseCommandPolicy,
+  PolicyValidationError,
+} from "../helpers/policy";
+import { executeCommand } from "../helpers/command";
+import { getAgentUid } from "../helpers/privileges";
+
+const policyErrors = (raw: unknown): string[] => {
+  try {
+    parseCommandPolicy(raw, "test");
+    return [];
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyValidationError);
+    return (error as PolicyValidationError).errors;
+  }
+};
+
+describe("Command privileges", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "privileges-"));
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        runAs: { user: "nobody" },
+        privilegedCommands: ["whoami"],
+        allowedPaths: ["/tmp"],
+        allowedEnv: ["TZ", "USER"],
+        commands: {
+          id: { pathAccess: "none" },
+          whoami: {},
+          env: { pathAccess: "none", maxArgs: 0 },
+        },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(() => {
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should resolve the target user for every non-privileged command", () => {
+    const policy = parseCommandPolicy(
+      {
+        runAs: { user: "nobody" },
+        privilegedCommands: ["whoami"],
+        commands: { id: {}, whoami: {} },
+      },
+      "test",
+    );
+
+    expect(policy.commands.id.runAs?.uid).toBe(65534);
+    expect(policy.commands.id.runAs?.groups).toEqual([]);
+    expect(policy.commands.whoami.runAs).toBeNull();
+    expect(policy.commands.whoami.privileged).toBe(true);
+  });
+
+  it("should reject missing users and unlisted root commands", () => {
+    const errors = policyErrors({
+      runAs: { user: "no-such-user-pingushell" },
+      privilegedCommands: ["reboot"],
+      commands: {
+        id: {},
+        whoami: { runAs: { user: "root" } },
+      },
+    });
+
+    expect(errors.some((e) => e.startsWith("runAs.user"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("privilegedCommands"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("commands.whoami.runAs"))).toBe(
+      true,
+    );
+  });
+
+  it.skipIf(getAgentUid() !== 0)(
+    "should drop privileges before exec",
+    async () => {
+      const dropped = await executeCommand("id -u", "privileges-drop");
+      expect(dropped.stdout.trim()).toBe("65534");
+
+      const privileged = await executeCommand("whoami", "privileges-root");
+      expect(privileged.stdout.trim()).toBe("root");
+    },
+  );
+
+  it("should not pass the agent environment to commands", async () => {
+    process.env.PINGUSHELL_TEST_SECRET = "do-not-leak";
+
+    try {
+      const result = await executeCommand(
+        { program: "env", env: { TZ: "UTC", USER: "root" } },
+        "privileges-env",
+      );
+      const env = Object.fromEntries(
+        result.stdout
+          .trim()
+          .split("\n")
+          .map((line) => {
+            const separator = line.indexOf("=");
+            return [line.slice(0, separator), line.slice(separator + 1)];
+          }),
+      );
+
+      expect(result.status).toBe("ok");
+      expect(env.PINGUSHELL_TEST_SECRET).toBeUndefined();
+      expect(Object.keys(env).sort()).toEqual(
+        ["HOME", "LANG", "LOGNAME", "PATH", "TZ", "USER"].sort(),
+      );
+      // İstekteki env kimlik değişkenlerini ezemez
+      expect(env.USER).toBe(
+        getAgentUid() === 0 ? "nobody" : os.userInfo().username,
+      );
+    } finally {
+      delete process.env.PINGUSHELL_TEST_SECRET;
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "bun:test";
+import {
+  negotiateProtocolVersion,
+  parseInboundMessage,
+  toProtocolErrorMessage,
+  ProtocolValidationError,
+  PROTOCOL_VERSION,
+} from "../helpers/protocol";
+
+const expectRejection = (raw: string) => {
+  try {
+    parseInboundMessage(raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProtocolValidationError);
+    return error as ProtocolValidationError;
+  }
+  throw new Error("Mesaj reddedilmedi");
+};
+
+describe("WebSocket protocol", () => {
+  it("should accept valid messages and ignore unknown fields", () => {
+    const message = parseInboundMessage(
+      JSON.stringify({
+        type: "command",
+        data: {
+          command_id: "c1",
+          command: { program: "echo", args: ["merhaba"] },
+          priority: "high",
+          future_field: true,
+        },
+      }),
+    );
+
+    expect(message.type).toBe("command");
+    expect(parseInboundMessage('{"type":"ping"}')).toEqual({
+      type: "ping",
+      data: {},
+    });
+  });
+
+  it("should map the legacy requestId field to command_id", () => {
+    const message = parseInboundMessage(
+      '{"type":"command","data":{"requestId":"r1","command":"uptime"}}',
+    );
+
+    expect(message.type === "command" && message.data.command_id).toBe("r1");
+  });
+
+  it("should carry message ids and parse acknowledgements", () => {
+    const message = parseInboundMessage(
+      '{"type":"job_cancel","message_id":"s-1","data":{"job_id":"j1"}}',
+    );
+    expect(message.message_id).toBe("s-1");
+
+    const ack = parseInboundMessage(
+      '{"type":"ack","data":{"message_ids":["msg-1","msg-2"]}}',
+    );
+    expect(ack.type === "ack" && ack.data.message_ids).toEqual([
+      "msg-1",
+      "msg-2",
+    ]);
+    expect(expectRejection('{"type":"ack","data":{"message_id":5}}').code).toBe(
+      "invalid_data",
+    );
+  });
+
+  it("should reject malformed frames with structured errors", () => {
+    expect(expectRejection("{bozuk").code).toBe("invalid_json");
+    expect(expectRejection('["command"]').code).toBe("invalid_frame");
+
+    const unknown = expectRejection('{"type":"reboot","data":{"id":"x"}}');
+    expect(unknown.code).toBe("unknown_type");
+
+    const invalid = expectRejection(
+      '{"type":"command","data":{"command_id":"c2","priority":"urgent"}}',
+    );
+    expect(invalid.code).toBe("invalid_data");
+    expect(invalid.errors).toEqual([
+      "command: zorunlu alan",
+      "priority: 1-4 veya low, normal, high, critical olmalı",
+    ]);
+
+    expect(toProtocolErrorMessage(invalid)).toEqual({
+      type: "error",
+      data: {
+        code: "invalid_data",
+        message: invalid.message,
+        errors: invalid.errors,
+        message_type: "command",
+        ref: { command_id: "c2" },
+      },
+    });
+  });
+
+  it("should parse session resumption fields and sequence numbers", () => {
+    const message = parseInboundMessage(
+      JSON.stringify({
+        type: "auth_success",
+        seq: 7,
+        data: { resume_token: "rt-1", resumed: true, clientId: "c-9" },
+      }),
+    );
+    expect(message.seq).toBe(7);
+    expect(message.type === "auth_success" && message.data).toEqual({
+      resume_token: "rt-1",
+      resumed: true,
+      clientId: "c-9",
+    });
+
+    // Geçersiz sıra numarası yok sayılır
+    expect(parseInboundMessage('{"type":"ping","seq":-1}').seq).toBeUndefined();
+    expect(
+      expectRejection('{"type":"auth_success","data":{"resumed":"yes"}}')
+        .errors,
+    ).toEqual(["resumed: true veya false olmalı"]);
+  });
+
+  it("should negotiate the highest common protocol version", () => {
+    expect(negotiateProtocolVersion(undefined)).toBe(1);
+    expect(negotiateProtocolVersion({ protocol_version: 2 })).toBe(2);
+    expect(negotiateProtocolVersion({ protocol_version: 99 })).toBe(
+      PROTOCOL_VERSION,
+    );
+    expect(negotiateProtocolVersion({ protocol_versions: [2, 3, 5] })).toBe(3);
+    expect(negotiateProtocolVersion({ protocol_versions: [7, 8] })).toBeNull();
+  });
+});
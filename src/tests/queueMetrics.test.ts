@@ -0,0 +1,66 @@
+import { describe, it, expect } from "bun:test";
+import {
+  LatencyHistogram,
+  QueueMetrics,
+  SlidingWindowCounter,
+} from "../services/queueMetrics";
+
+describe("Queue metrics", () => {
+  it("should estimate percentiles from histogram buckets", () => {
+    const histogram = new LatencyHistogram([10, 100, 1000]);
+    for (let i = 1; i <= 100; i++) {
+      histogram.record(i);
+    }
+
+    const snapshot = histogram.snapshot();
+    expect(snapshot.count).toBe(100);
+    expect(snapshot.min_ms).toBe(1);
+    expect(snapshot.max_ms).toBe(100);
+    expect(snapshot.mean_ms).toBe(51);
+    expect(snapshot.buckets).toEqual([
+      { le: 10, count: 10 },
+      { le: 100, count: 100 },
+      { le: 1000, count: 100 },
+      { le: "+Inf", count: 100 },
+    ]);
+    expect(snapshot.p50_ms).toBe(50);
+    expect(snapshot.p99_ms).toBe(99);
+
+    // Üst sınırı aşan değer gözlenen en büyük değerle sınırlanır
+    histogram.record(5000);
+    expect(histogram.percentile(100)).toBe(5000);
+  });
+
+  it("should count throughput only inside the sliding window", () => {
+    const counter = new SlidingWindowCounter(60000);
+    const start = 1_000_000;
+
+    counter.record(start);
+    counter.record(start + 500);
+    counter.record(start + 30000);
+    expect(counter.getCount(start + 30000)).toBe(3);
+
+    // İlk saniyenin kayıtları pencereden çıktı
+    expect(counter.snapshot(start + 61000)).toEqual({
+      window_ms: 60000,
+      completed: 1,
+      per_minute: 1,
+    });
+  });
+
+  it("should keep per-status counters and end-to-end latency", () => {
+    const metrics = new QueueMetrics();
+    metrics.recordQueueWait(20);
+    metrics.recordExecution(300);
+    metrics.recordCompletion("ok", 320);
+    metrics.recordCompletion("timeout", 30000);
+    metrics.recordCompletion("rejected");
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.status_counts).toEqual({ ok: 1, timeout: 1, rejected: 1 });
+    expect(snapshot.end_to_end.count).toBe(2);
+    expect(snapshot.queue_wait.max_ms).toBe(20);
+    expect(snapshot.execution.mean_ms).toBe(300);
+    expect(snapshot.throughput.completed).toBe(2);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import { executeCommand, toLegacyCommandResult } from "../helpers/command";
+import { buildLimitedArgv } from "../helpers/limits";
+
+describe("Resource limits", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "limits-"));
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        maxOutputLength: 1000,
+        allowedPaths: [dir],
+        commands: {
+          yes: { pathAccess: "none" },
+          sleep: { timeout: 300 },
+          sha256sum: { pathAccess: "none", limits: { cpuSeconds: 1 } },
+          echo: { pathAccess: "none" },
+          sh: { pathAccess: "none", timeout: 2000 },
+        },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(() => {
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should wrap argv with prlimit only when limits are set", () => {
+    expect(buildLimitedArgv(["/bin/echo"], {}, "/usr/bin:/bin")).toEqual([
+      "/bin/echo",
+    ]);
+
+    const argv = buildLimitedArgv(
+      ["/bin/echo"],
+      { cpuSeconds: 2, maxOpenFiles: 64 },
+      "/usr/bin:/bin",
+    );
+    expect(argv.slice(1)).toEqual([
+      "--cpu=2:3",
+      "--nofile=64",
+      "--",
+      "/bin/echo",
+    ]);
+  });
+
+  it("should stop streaming once the output cap is reached", async () => {
+    let streamed = 0;
+    const result = await executeCommand("yes", "limit-output", {
+      onOutput: (chunk) => {
+        streamed += Buffer.byteLength(chunk.data);
+      },
+    });
+
+    expect(result.status).toBe("truncated");
+    expect(result.limit_exceeded).toBe("output");
+    expect(result.exit_code).toBeNull();
+    expect(result.signal).toBe("SIGKILL");
+    expect(toLegacyCommandResult(result).exit_code).toBe(413);
+    expect(streamed).toBe(1000);
+    expect(result.stdout.length).toBe(1000);
+  });
+
+  it("should kill the whole process group when the output cap is reached", async () => {
+    // Arka plandaki sleep komutun kendisi öldürülse de çalışmaya devam ederdi
+    const startedAt = Date.now();
+    const result = await executeCommand(
+      { program: "sh", args: ["-c", "sleep 5 & echo $! > sleep.pid; yes"] },
+      "limit-output-group",
+    );
+
+    expect(result.limit_exceeded).toBe("output");
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+
+    const pid = Number(fs.readFileSync(path.join(dir, "sleep.pid"), "utf8"));
+    await Bun.sleep(50);
+    // Öldürülen süreç ya yoktur ya da henüz toplanmamış zombidir (Z)
+    const statPath = `/proc/${pid}/stat`;
+    const state = fs.existsSync(statPath)
+      ? fs.readFileSync(statPath, "utf8").split(") ")[1][0]
+      : "Z";
+    expect(state).toBe("Z");
+  });
+
+  it("should report timeouts as a tripped limit", async () => {
+    const result = await executeCommand("sleep 5", "limit-timeout");
+    expect(result.status).toBe("timeout");
+    expect(result.limit_exceeded).toBe("timeout");
+    expect(result.duration_ms).toBeGreaterThanOrEqual(300);
+    expect(toLegacyCommandResult(result).exit_code).toBe(408);
+  });
+
+  it("should detect the CPU time limit", async () => {
+    const result = await executeCommand("sha256sum /dev/zero", "limit-cpu");
+    expect(result.limit_exceeded).toBe("cpu");
+    expect(result.signal).toBe("SIGXCPU");
+    expect(result.status).toBe("failed");
+  }, 10_000);
+
+  it("should leave normal commands untouched", async () => {
+    const result = await executeCommand("echo merhaba", "limit-none");
+    expect(result).toMatchObject({
+      success: true,
+      status: "ok",
+      stdout: "merhaba\n",
+      stderr: "",
+      exit_code: 0,
+      signal: null,
+    });
+    expect(result.limit_exceeded).toBeUndefined();
+    expect(Date.parse(result.finished_at)).toBeGreaterThanOrEqual(
+      Date.parse(result.started_at),
+    );
+  });
+
+  it("should keep stderr and the real exit code apart", async () => {
+    const result = await executeCommand("sha256sum missing", "limit-stderr");
+    expect(result.status).toBe("failed");
+    expect(result.exit_code).toBe(1);
+    expect(result.stderr).toContain("missing");
+
+    const blocked = await executeCommand("rm -rf x", "limit-blocked");
+    expect(blocked.status).toBe("blocked");
+    expect(blocked.exit_code).toBeNull();
+    expect(toLegacyCommandResult(blocked).exit_code).toBe(403);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import { computeBackoffDelay } from "../helpers/backoff";
+import { isRetryableResult, parseRetryPolicy } from "../helpers/retry";
+import { CommandQueueManager } from "../services/commandQueue";
+import type { CommandInput, CommandResult } from "../helpers/command";
+
+describe("Command retry", () => {
+  const queue = new CommandQueueManager();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "retry-"));
+
+  const run = (command: CommandInput, retry: unknown) =>
+    new Promise<CommandResult>((resolve, reject) => {
+      queue
+        .addCommand(command, {
+          retry: parseRetryPolicy(retry),
+          onSuccess: resolve,
+          onError: reject,
+        })
+        .catch(reject);
+    });
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: { echo: { pathAccess: "none" }, false: {} },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(async () => {
+    await queue.cleanup();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should grow the delay exponentially within the jitter range", () => {
+    const options = {
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      multiplier: 2,
+      jitter: "none" as const,
+    };
+
+    expect(computeBackoffDelay(1, options)).toBe(100);
+    expect(computeBackoffDelay(3, options)).toBe(400);
+    expect(computeBackoffDelay(10, options)).toBe(1000);
+    expect(
+      computeBackoffDelay(3, { ...options, jitter: "full" }, () => 0.5),
+    ).toBe(200);
+    expect(
+      computeBackoffDelay(3, { ...options, jitter: "equal" }, () => 0),
+    ).toBe(200);
+  });
+
+  it("should only retry transient statuses and listed exit codes", () => {
+    const policy = parseRetryPolicy({
+      max_attempts: 50,
+      retry_on: { statuses: ["timeout", "blocked"], exit_codes: [75] },
+    });
+
+    expect(policy.maxAttempts).toBe(10);
+    expect(policy.retryOnStatuses).toEqual(["timeout"]);
+    expect(
+      isRetryableResult(policy, { status: "timeout", exit_code: null }),
+    ).toBe(true);
+    expect(isRetryableResult(policy, { status: "failed", exit_code: 75 })).toBe(
+      true,
+    );
+    expect(isRetryableResult(policy, { status: "failed", exit_code: 1 })).toBe(
+      false,
+    );
+    expect(parseRetryPolicy(undefined).maxAttempts).toBe(1);
+  });
+
+  it("should retry failing commands and report every attempt", async () => {
+    const result = await run("false", {
+      max_attempts: 3,
+      base_delay_ms: 10,
+      jitter: "none",
+      retry_on: { exit_codes: [1] },
+    });
+
+    expect(result.status).toBe("failed");
+    expect(result.attempts?.map((attempt) => attempt.attempt)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(result.attempts?.map((attempt) => attempt.retry_delay_ms)).toEqual([
+      10,
+      20,
+      undefined,
+    ]);
+  });
+
+  it("should not retry a successful command", async () => {
+    const result = await run("echo tamam", { max_attempts: 3 });
+
+    expect(result.status).toBe("ok");
+    expect(result.attempts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import { CommandQueueManager } from "../services/commandQueue";
+import {
+  CommandScheduler,
+  ScheduledRunResult,
+  ScheduleValidationError,
+  parseScheduleDefinition,
+} from "../services/scheduler";
+
+const waitFor = async (condition: () => boolean, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Zaman aşımı");
+    await Bun.sleep(10);
+  }
+};
+
+describe("Command scheduler", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scheduler-"));
+  const storePath = path.join(dir, "schedules.json");
+  const queue = new CommandQueueManager();
+  const scheduler = new CommandScheduler(storePath, queue);
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({
+        allowedPaths: [dir],
+        commands: { echo: { pathAccess: "none" }, sleep: {} },
+      }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(async () => {
+    await scheduler.cleanup();
+    await queue.cleanup();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should validate schedule messages", () => {
+    expect(() =>
+      parseScheduleDefinition({
+        schedule_id: "bad",
+        command: "echo",
+        cron: "* * *",
+        run_at: "2026-10-19T10:00:00Z",
+        timezone: "Nowhere/City",
+        overlap: "never",
+      }),
+    ).toThrow(ScheduleValidationError);
+
+    const definition = parseScheduleDefinition({
+      schedule_id: "ok",
+      command: "echo",
+      cron: "@hourly",
+    });
+    expect(definition.timezone).toBe("UTC");
+    expect(definition.overlap).toBe("skip");
+  });
+
+  it("should buffer results until they can be delivered", async () => {
+    scheduler.upsert(
+      parseScheduleDefinition({
+        schedule_id: "once",
+        command: "echo zamanlandı",
+        run_at: "2026-10-19T10:00:00Z",
+      }),
+    );
+
+    scheduler.tick(new Date("2026-10-19T10:00:01Z"));
+    expect(scheduler.list()).toHaveLength(0);
+    await waitFor(() => scheduler.getPendingResultCount() === 1);
+
+    // Bağlantı yokken iletilemez, tamponda ve diskte kalır
+    scheduler.setDeliveryHandler(() => false);
+    expect(scheduler.getPendingResultCount()).toBe(1);
+
+    const reloaded = new CommandScheduler(storePath, queue);
+    reloaded.load();
+    expect(reloaded.getPendingResultCount()).toBe(1);
+
+    const delivered: ScheduledRunResult[] = [];
+    scheduler.setDeliveryHandler((run) => {
+      delivered.push(run);
+      return true;
+    });
+
+    expect(delivered).toHaveLength(1);
+    expect(delivered[0].schedule_id).toBe("once");
+    expect(delivered[0].result.stdout).toBe("zamanlandı\n");
+    expect(scheduler.getPendingResultCount()).toBe(0);
+    scheduler.setDeliveryHandler(null);
+  });
+
+  it("should skip runs that overlap a running one", async () => {
+    const start = new Date("2026-10-19T10:00:30Z");
+    const entry = scheduler.upsert(
+      parseScheduleDefinition({
+        schedule_id: "every-minute",
+        command: "sleep 1",
+        cron: "* * * * *",
+      }),
+      start,
+    );
+    expect(entry.next_run_at).toBe("2026-10-19T10:01:00.000Z");
+
+    scheduler.tick(new Date("2026-10-19T10:01:00Z"));
+    await waitFor(() => queue.getProcessingCount() === 1);
+    scheduler.tick(new Date("2026-10-19T10:02:00Z"));
+
+    const [summary] = scheduler.list();
+    expect(summary.skipped_runs).toBe(1);
+    expect(summary.running).toBe(1);
+    expect(summary.next_run_at).toBe("2026-10-19T10:03:00.000Z");
+
+    await waitFor(() => scheduler.list()[0].running === 0);
+    expect(scheduler.remove("every-minute")).toBe(true);
+  });
+
+  it("should replay a dead-lettered run under its original run id", async () => {
+    const delivered: ScheduledRunResult[] = [];
+    scheduler.setDeliveryHandler((run) => {
+      delivered.push(run);
+      return true;
+    });
+    scheduler.upsert(
+      parseScheduleDefinition({
+        schedule_id: "replayed",
+        command: "echo tekrar",
+        cron: "@daily",
+      }),
+    );
+
+    const scheduledFor = "2026-10-19T00:00:00.000Z";
+    expect(scheduler.replayRun("replayed", scheduledFor)).toBe(true);
+    const replayed = () =>
+      delivered.filter((run) => run.schedule_id === "replayed");
+    await waitFor(() => replayed().length === 1);
+    expect(replayed()[0]).toMatchObject({
+      schedule_id: "replayed",
+      run_id: `replayed:${Date.parse(scheduledFor)}`,
+      scheduled_for: scheduledFor,
+    });
+
+    // Silinmiş zamanlama kaynağı olmadan yeniden çalıştırılamaz
+    expect(scheduler.remove("replayed")).toBe(true);
+    expect(scheduler.replayRun("replayed", scheduledFor)).toBe(false);
+    scheduler.setDeliveryHandler(null);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadCommandPolicy } from "../helpers/policy";
+import {
+  closeAllSessions,
+  closeSession,
+  listSessions,
+  openSession,
+  resizeSession,
+  writeSession,
+  SessionHandlers,
+} from "../helpers/session";
+
+// Oturum çıktısını ve çıkışını toplayan callback'ler
+const collect = () => {
+  let output = "";
+  let resolveExit: (exit: { code: number | null; reason: string }) => void;
+  const exited = new Promise<{ code: number | null; reason: string }>(
+    (resolve) => {
+      resolveExit = resolve;
+    },
+  );
+  const handlers: SessionHandlers = {
+    onOutput: (data) => {
+      output += data;
+    },
+    onExit: (code, reason) => resolveExit({ code, reason }),
+  };
+
+  return { handlers, exited, output: () => output };
+};
+
+// Çıktıda metin görünene kadar bekle
+const waitForOutput = async (
+  output: () => string,
+  text: string,
+): Promise<void> => {
+  for (let i = 0; i < 200 && !output().includes(text); i++) {
+    await Bun.sleep(10);
+  }
+};
+
+describe("PTY sessions", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "session-"));
+
+  beforeAll(() => {
+    const policyPath = path.join(dir, "policy.json");
+    fs.writeFileSync(
+      policyPath,
+      JSON.stringify({ allowedPaths: [dir], commands: { cat: {} } }),
+    );
+    loadCommandPolicy(policyPath);
+  });
+
+  afterAll(() => {
+    closeAllSessions();
+    loadCommandPolicy(path.join(dir, "missing.json"));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should reject session commands outside the policy", () => {
+    const { handlers } = collect();
+
+    // Varsayılan kabuk (bash) whitelist'te değil
+    const result = openSession("s-denied", {}, handlers);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("whitelist");
+    expect(openSession("s-denied", { command: "id" }, handlers).success).toBe(
+      false,
+    );
+    expect(listSessions()).toEqual([]);
+  });
+
+  it("should relay input, resize and clean up on close", async () => {
+    const session = collect();
+    expect(
+      openSession("s-1", { command: "cat", cols: 100, rows: 30 }, session.handlers),
+    ).toEqual({ success: true });
+    expect(openSession("s-1", { command: "cat" }, session.handlers).success).toBe(
+      false,
+    );
+    expect(listSessions()).toMatchObject([
+      { session_id: "s-1", command: "cat", cols: 100, rows: 30 },
+    ]);
+
+    expect(writeSession("s-1", "merhaba\n")).toBe(true);
+    await waitForOutput(session.output, "merhaba");
+    expect(session.output()).toContain("merhaba");
+
+    expect(resizeSession("s-1", 120, 40)).toBe(true);
+    expect(listSessions()[0]).toMatchObject({ cols: 120, rows: 40 });
+
+    expect(closeSession("s-1")).toBe(true);
+    // Kapanmakta olan oturuma girdi yazılamaz
+    expect(writeSession("s-1", "x")).toBe(false);
+
+    const exit = await session.exited;
+    expect(exit.reason).toBe("closed");
+    expect(listSessions()).toEqual([]);
+    expect(closeSession("s-1")).toBe(false);
+    expect(resizeSession("s-1", 80, 24)).toBe(false);
+  });
+
+  it("should close every session on shutdown", async () => {
+    const first = collect();
+    const second = collect();
+    openSession("s-2", { command: "cat" }, first.handlers);
+    openSession("s-3", { command: "cat" }, second.handlers);
+
+    expect(closeAllSessions("shutdown")).toBe(2);
+    const exits = await Promise.all([first.exited, second.exited]);
+    expect(exits.map((exit) => exit.reason)).toEqual(["shutdown", "shutdown"]);
+    expect(listSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import {
+  parseShellWords,
+  quoteShellWord,
+  formatShellWords,
+} from "../helpers/shellWords";
+
+describe("parseShellWords", () => {
+  it("should split on whitespace", () => {
+    expect(parseShellWords("echo  hello\tworld")).toEqual([
+      "echo",
+      "hello",
+      "world",
+    ]);
+  });
+
+  it("should honor single and double quotes", () => {
+    expect(parseShellWords(`echo 'a  b' "c d" e'f'"g"`)).toEqual([
+      "echo",
+      "a  b",
+      "c d",
+      "efg",
+    ]);
+    expect(parseShellWords(`echo "" ''`)).toEqual(["echo", "", ""]);
+  });
+
+  it("should apply backslash escapes", () => {
+    expect(parseShellWords(`echo a\\ b "q\\"uote" "keep\\n"`)).toEqual([
+      "echo",
+      "a b",
+      'q"uote',
+      "keep\\n",
+    ]);
+  });
+
+  it("should keep shell operators literal inside single quotes", () => {
+    expect(parseShellWords(`echo 'a;b|c $(d)'`)).toEqual([
+      "echo",
+      "a;b|c $(d)",
+    ]);
+  });
+
+  it("should reject unquoted operators and expansions", () => {
+    expect(() => parseShellWords("echo a; rm -rf /")).toThrow();
+    expect(() => parseShellWords("echo a | cat")).toThrow();
+    expect(() => parseShellWords("echo > /tmp/x")).toThrow();
+    expect(() => parseShellWords("echo $HOME")).toThrow();
+    expect(() => parseShellWords('echo "$(id)"')).toThrow();
+    expect(() => parseShellWords("echo `id`")).toThrow();
+  });
+
+  it("should reject unterminated quotes", () => {
+    expect(() => parseShellWords("echo 'abc")).toThrow();
+    expect(() => parseShellWords('echo "abc')).toThrow();
+    expect(() => parseShellWords("echo abc\\")).toThrow();
+  });
+});
+
+describe("quoteShellWord", () => {
+  it("should round-trip through the parser", () => {
+    const argv = ["echo", "it's", "a b", "", "$(id)", "plain-word"];
+    expect(parseShellWords(formatShellWords(argv))).toEqual(argv);
+    expect(quoteShellWord("plain-word")).toBe("plain-word");
+  });
+});
@@ -0,0 +1,427 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Server, ServerWebSocket } from "bun";
+import {
+  WebSocketClient,
+  ConnectionConfig,
+  ConnectionStateChange,
+} from "../services/ws";
+import { Outbox } from "../services/outbox";
+import { ProtocolValidationError } from "../helpers/protocol";
+
+// Test sunucusunun bağlantı başına gördükleri
+interface ServerConnection {
+  socket: ServerWebSocket<unknown>;
+  received: any[];
+}
+
+// Koşul sağlanana kadar bekle
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("Beklenen koşul sağlanmadı");
+    }
+    await Bun.sleep(10);
+  }
+};
+
+describe("WebSocket client", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ws-client-"));
+  const connections: ServerConnection[] = [];
+  const changes: ConnectionStateChange[] = [];
+  let server: Server<unknown>;
+  let client: WebSocketClient | null = null;
+
+  // Bağlantıları kaydeden test sunucusu (port 0: boş port)
+  const serve = (port: number = 0) =>
+    Bun.serve({
+      port,
+      fetch(request, server) {
+        return server.upgrade(request)
+          ? undefined
+          : new Response("Upgrade gerekli", { status: 400 });
+      },
+      websocket: {
+        open(socket) {
+          connections.push({ socket, received: [] });
+        },
+        message(socket, data) {
+          connections
+            .find((connection) => connection.socket === socket)
+            ?.received.push(JSON.parse(String(data)));
+        },
+      },
+    });
+
+  // backing_off geçişleri (bekleme ve deneme sayısıyla)
+  const backoffs = () =>
+    changes
+      .filter((change) => change.to === "backing_off")
+      .map(({ reason, attempt, delay_ms }) => ({ reason, attempt, delay_ms }));
+
+  // Sunucuya gelen mesajlar (tür listesi)
+  const typesOf = (connection: ServerConnection) =>
+    connection.received.map((message) => message.type);
+
+  const send = (connection: ServerConnection, message: any) =>
+    connection.socket.send(JSON.stringify(message));
+
+  const createClient = (name: string, config?: Partial<ConnectionConfig>) => {
+    client = new WebSocketClient(
+      { endpointUrl: `ws://localhost:${server.port}`, ...config },
+      new Outbox(path.join(dir, `${name}.jsonl`)),
+    );
+    client.onStateChange((change) => changes.push(change));
+    return client;
+  };
+
+  const startClient = async (
+    name: string,
+    config?: Partial<ConnectionConfig>,
+  ) => {
+    const count = connections.length;
+    await createClient(name, config).connect();
+    await waitFor(() => connections.length > count);
+    return connections[connections.length - 1];
+  };
+
+  // welcome ve auth_success ile oturumu aç, sunucunun gördüğü auth'u döndür
+  const authenticate = async (
+    connection: ServerConnection,
+    authSuccess: Record<string, any> = {},
+  ) => {
+    send(connection, { type: "welcome", data: { protocol_version: 3 } });
+    await waitFor(() => typesOf(connection).includes("auth"));
+    send(connection, { type: "auth_success", data: authSuccess });
+    await waitFor(() => client?.getConnectionState() === "ready");
+    return connection.received.find((message) => message.type === "auth");
+  };
+
+  // Sunucu bağlantıyı kapatır, istemci beklemeden yeniden bağlanır
+  const reconnect = async () => {
+    const count = connections.length;
+    connections[count - 1].socket.close();
+    await waitFor(() => client?.getConnectionState() === "backing_off");
+    await client!.connect();
+    await waitFor(() => connections.length > count);
+    return connections[connections.length - 1];
+  };
+
+  // Sunucu mesajına verilen yanıtların in_reply_to değerleri
+  const repliesOf = (connection: ServerConnection) =>
+    connection.received
+      .map((message) => message.in_reply_to)
+      .filter((id) => id !== undefined);
+
+  beforeAll(() => {
+    server = serve();
+  });
+
+  afterEach(() => {
+    client?.disconnect();
+    client = null;
+    connections.length = 0;
+    changes.length = 0;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should hold results until auth_success and flush them in order", async () => {
+    const connection = await startClient("auth-gate");
+
+    // v3: sunucu onay vermez, auth öncesi gönderilen sonuç kaybolurdu
+    send(connection, { type: "welcome", data: { protocol_version: 3 } });
+    await waitFor(() => typesOf(connection).includes("auth"));
+
+    send(connection, { type: "queue_status", data: {} });
+    send(connection, { type: "schedule_list", data: {} });
+    await Bun.sleep(100);
+    expect(typesOf(connection)).toEqual(["auth"]);
+
+    send(connection, { type: "auth_success", data: {} });
+    await waitFor(() => typesOf(connection).includes("schedule_list_result"));
+
+    const types = typesOf(connection);
+    expect(types.indexOf("status")).toBeGreaterThan(0);
+    expect(types.slice(types.indexOf("queue_state"))).toEqual([
+      "queue_state",
+      "schedule_list_result",
+    ]);
+    expect(types.indexOf("queue_state")).toBeGreaterThan(
+      types.indexOf("status"),
+    );
+  });
+
+  it("should present the resume token and skip replayed messages", async () => {
+    const first = await startClient("resume");
+    const auth = await authenticate(first, { resume_token: "rt-1" });
+    expect(auth.data.resume).toBeUndefined();
+
+    send(first, {
+      type: "queue_status",
+      message_id: "srv-1",
+      seq: 1,
+      data: {},
+    });
+    send(first, {
+      type: "queue_status",
+      message_id: "srv-2",
+      seq: 2,
+      data: {},
+    });
+    await waitFor(() => repliesOf(first).length === 2);
+
+    const second = await reconnect();
+    const resumeAuth = await authenticate(second, { resumed: true });
+    expect(resumeAuth.data.resume).toMatchObject({
+      token: "rt-1",
+      last_seq: 2,
+    });
+
+    // Sunucu last_seq'ten önceki mesajı tekrar gönderse de işlenmez
+    send(second, {
+      type: "queue_status",
+      message_id: "srv-2",
+      seq: 2,
+      data: {},
+    });
+    send(second, {
+      type: "queue_status",
+      message_id: "srv-3",
+      seq: 3,
+      data: {},
+    });
+    await waitFor(() => repliesOf(second).includes("srv-3"));
+    expect(repliesOf(second)).toEqual(["srv-3"]);
+
+    // Devam ettirilen oturumda token yenilenmediyse eskisi kullanılmaya devam eder
+    const third = await reconnect();
+    const nextAuth = await authenticate(third, { resumed: true });
+    expect(nextAuth.data.resume).toMatchObject({ token: "rt-1", last_seq: 3 });
+  });
+
+  it("should start a new session when the resume is rejected", async () => {
+    const first = await startClient("resume-rejected");
+    await authenticate(first, { resume_token: "rt-old" });
+    send(first, {
+      type: "queue_status",
+      message_id: "srv-5",
+      seq: 5,
+      data: {},
+    });
+    await waitFor(() => repliesOf(first).length === 1);
+
+    const second = await reconnect();
+    const auth = await authenticate(second, {
+      resumed: false,
+      resume_token: "rt-new",
+    });
+    expect(auth.data.resume).toMatchObject({ token: "rt-old", last_seq: 5 });
+
+    // Yeni oturumda sıra numaraları baştan başlar, eski last_seq ayıklama yapmaz
+    send(second, {
+      type: "queue_status",
+      message_id: "srv-new-1",
+      seq: 1,
+      data: {},
+    });
+    await waitFor(() => repliesOf(second).includes("srv-new-1"));
+
+    const third = await reconnect();
+    const nextAuth = await authenticate(third, {});
+    expect(nextAuth.data.resume).toMatchObject({
+      token: "rt-new",
+      last_seq: 1,
+    });
+
+    // Token verilmeyen yeni oturumdan sonra resume istenmez
+    const fourth = await reconnect();
+    expect((await authenticate(fourth)).data.resume).toBeUndefined();
+  });
+
+  it("should move through the connection states and reconnect after the delay", async () => {
+    const first = await startClient("states", {
+      reconnectBackoff: {
+        baseDelayMs: 20,
+        maxDelayMs: 20,
+        multiplier: 2,
+        jitter: "full",
+      },
+      random: () => 1,
+    });
+    await authenticate(first);
+
+    first.socket.close();
+    await waitFor(() => connections.length === 2);
+    await waitFor(() => client?.getConnectionState() === "authenticating");
+    client!.disconnect();
+
+    expect(changes.map((change) => [change.from, change.to])).toEqual([
+      ["idle", "connecting"],
+      ["connecting", "authenticating"],
+      ["authenticating", "ready"],
+      ["ready", "backing_off"],
+      ["backing_off", "connecting"],
+      ["connecting", "authenticating"],
+      ["authenticating", "stopped"],
+    ]);
+    expect(changes.map((change) => change.reason)).toEqual([
+      "start",
+      "socket_open",
+      "authenticated",
+      expect.stringMatching(/^close_/),
+      "reconnect",
+      "socket_open",
+      "disconnect",
+    ]);
+    expect(backoffs()).toEqual([
+      { reason: expect.any(String), attempt: 1, delay_ms: 20 },
+    ]);
+  });
+
+  it("should use full-jitter delays, open the circuit and reset after connecting", async () => {
+    // Kapalı port: her deneme hemen başarısız olur
+    const probe = serve();
+    const port = probe.port;
+    probe.stop(true);
+
+    const randoms = [1, 0.5, 0, 0.999];
+    createClient("circuit", {
+      endpointUrl: `ws://localhost:${port}`,
+      reconnectBackoff: {
+        baseDelayMs: 10,
+        maxDelayMs: 40,
+        multiplier: 2,
+        jitter: "full",
+      },
+      maxReconnectAttempts: 4,
+      reconnectCooldownMs: 30,
+      random: () => randoms.shift() ?? 1,
+    });
+    await client!.connect();
+    await waitFor(() => backoffs().length >= 6);
+
+    // Gecikme [0, min(taban * 2^(n-1), üst sınır)] aralığında, sonra devre açık
+    expect(backoffs().slice(0, 6)).toEqual([
+      { reason: expect.stringMatching(/^close_/), attempt: 1, delay_ms: 10 },
+      { reason: expect.stringMatching(/^close_/), attempt: 2, delay_ms: 10 },
+      { reason: expect.stringMatching(/^close_/), attempt: 3, delay_ms: 0 },
+      { reason: expect.stringMatching(/^close_/), attempt: 4, delay_ms: 40 },
+      { reason: "circuit_open", attempt: 5, delay_ms: 30 },
+      { reason: "circuit_open", attempt: 6, delay_ms: 30 },
+    ]);
+
+    // Sunucu geri gelince bağlanılır ve sayaç sıfırlanır
+    const revived = serve(port);
+    try {
+      await waitFor(() => connections.length > 0);
+      await authenticate(connections[0]);
+      changes.length = 0;
+
+      connections[0].socket.close();
+      await waitFor(() => backoffs().length > 0);
+      expect(backoffs()[0]).toMatchObject({ attempt: 1, delay_ms: 10 });
+    } finally {
+      client!.disconnect();
+      revived.stop(true);
+    }
+  });
+
+  it("should cancel the pending reconnect on disconnect", async () => {
+    const first = await startClient("cancel", {
+      reconnectBackoff: {
+        baseDelayMs: 100,
+        maxDelayMs: 100,
+        multiplier: 2,
+        jitter: "full",
+      },
+      random: () => 1,
+    });
+    await authenticate(first);
+
+    first.socket.close();
+    await waitFor(() => client?.getConnectionState() === "backing_off");
+    client!.disconnect();
+    await Bun.sleep(250);
+
+    expect(client!.getConnectionState()).toBe("stopped");
+    expect(changes[changes.length - 1]).toMatchObject({
+      from: "backing_off",
+      to: "stopped",
+    });
+    expect(connections.length).toBe(1);
+    expect(await client!.connect()).toBe(false);
+  });
+});
+
+describe("WebSocket client message handling", () => {
+  let client: WebSocketClient | null = null;
+
+  // Bağlantısız istemci, gönderilen mesajlar listeye yazılır
+  const createClient = (protocolVersion: number) => {
+    const sent: any[] = [];
+    client = new WebSocketClient();
+    client["protocolVersion"] = protocolVersion;
+    client["safeSend"] = (data: any) => {
+      sent.push(data);
+      return true;
+    };
+    return { client, sent };
+  };
+
+  afterEach(() => {
+    client?.disconnect();
+    client = null;
+  });
+
+  it("should reply to invalid messages only from protocol v3 on", () => {
+    const error = new ProtocolValidationError(
+      "invalid_data",
+      ["command_id: zorunlu alan"],
+      "command",
+    );
+
+    const legacy = createClient(2);
+    legacy.client["rejectInvalidMessage"](error);
+    expect(legacy.sent).toEqual([]);
+    legacy.client.disconnect();
+
+    const current = createClient(3);
+    current.client["rejectInvalidMessage"](error);
+    expect(current.sent.map((message) => message.type)).toEqual(["error"]);
+    expect(current.sent[0].data).toMatchObject({
+      code: "invalid_data",
+      message_type: "command",
+    });
+  });
+
+  it("should carry in_reply_to on later replies and not on unrelated frames", async () => {
+    const { client, sent } = createClient(3);
+    await client["handleMessage"]({
+      type: "queue_drain",
+      message_id: "srv-drain",
+      data: {},
+    });
+
+    // queue_drained, drain bittikten sonra (mesaj işlendikten sonra) gönderilir
+    for (let i = 0; i < 50 && !sent.some((m) => m.type === "queue_drained"); i++) {
+      await Bun.sleep(10);
+    }
+    const replyOf = (type: string) =>
+      sent.find((message) => message.type === type)?.in_reply_to;
+    expect(replyOf("queue_state")).toBe("srv-drain");
+    expect(replyOf("queue_drained")).toBe("srv-drain");
+
+    // message_id taşımayan isteklerin yanıtları hiçbir mesaja bağlanmaz
+    sent.length = 0;
+    await client["handleMessage"]({ type: "queue_resume", data: {} });
+    expect(sent.map((message) => message.type)).toEqual(["queue_state"]);
+    expect(sent[0].in_reply_to).toBeUndefined();
+  });
+});